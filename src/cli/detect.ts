@@ -0,0 +1,99 @@
+import { readFileSync, readdirSync, statSync } from 'node:fs';
+import { basename, dirname, join, relative } from 'node:path';
+import { decodePng } from '@/cli/png';
+import { parseCaptureProfile } from '@/lib/captureProfile';
+import { Detection } from '@/lib/detector';
+import { LabeledPrediction, buildConfusionMatrix, classifyFrame } from '@/lib/headlessDetector';
+import { NEUTRAL_OUTCOME, Outcome, Result, findOutcome, getOutcome } from '@/lib/outcomes';
+
+const USAGE = `Использование: npm run detect -- <папка со скриншотами> <профиль захвата.json>
+
+Скриншоты в подпапках, названных по исходу (alpha/, Омега/, ω/) или none/ для кадров без результата,
+считаются размеченными: для них печатается матрица ошибок.`;
+
+const NO_RESULT_LABELS = ['none', 'нет', '-'];
+const NO_RESULT_MARK = '—';
+
+const listPngFiles = (dir: string): string[] =>
+  readdirSync(dir).sort().flatMap(name => {
+    const path = join(dir, name);
+    if (statSync(path).isDirectory()) return listPngFiles(path);
+    return name.toLowerCase().endsWith('.png') ? [path] : [];
+  });
+
+// Метка берётся из имени папки, в которой лежит файл; undefined — файл не размечен
+const labelFor = (root: string, file: string, outcomes: Outcome[]): Result | null | undefined => {
+  const folder = dirname(file);
+  if (relative(root, folder) === '') return undefined;
+  const name = basename(folder);
+  if (NO_RESULT_LABELS.includes(name.toLowerCase())) return null;
+  return findOutcome(outcomes, name)?.id;
+};
+
+const labelText = (outcomes: Outcome[], id: Result | null) => (id === null ? NO_RESULT_MARK : getOutcome(outcomes, id).label);
+
+// В матрице ошибок экран ожидания и нераспознанный кадр одинаково считаются «нет результата»
+const detectionText = (outcomes: Outcome[], detection: Detection) => {
+  if (detection.state === 'neutral') return `${NO_RESULT_MARK} (${NEUTRAL_OUTCOME.label.toLowerCase()})`;
+  if (detection.state === 'undecided') return 'не решено';
+  return labelText(outcomes, detection.result);
+};
+
+const printConfusionMatrix = (predictions: LabeledPrediction[], outcomes: Outcome[]) => {
+  const matrix = buildConfusionMatrix(predictions, outcomes);
+  const names = matrix.labels.map(id => labelText(outcomes, id));
+  const width = Math.max(8, ...names.map(n => n.length + 2));
+  const cell = (text: string | number) => String(text).padStart(width);
+
+  console.log('\nМатрица ошибок (строки — ожидаемый исход, столбцы — распознанный):');
+  console.log(''.padEnd(width) + names.map(cell).join(''));
+  matrix.counts.forEach((row, i) => console.log(names[i].padEnd(width) + row.map(cell).join('')));
+
+  const accuracy = matrix.total > 0 ? (matrix.correct / matrix.total) * 100 : 0;
+  console.log(`\nВерно: ${matrix.correct}/${matrix.total} (${accuracy.toFixed(1)}%)`);
+};
+
+const main = (args: string[]) => {
+  const [folder, profilePath] = args;
+  if (!folder || !profilePath) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const file = parseCaptureProfile(JSON.parse(readFileSync(profilePath, 'utf8')));
+  const images = listPngFiles(folder);
+  if (images.length === 0) {
+    console.error(`В папке ${folder} нет PNG-файлов`);
+    return 1;
+  }
+
+  const predictions: LabeledPrediction[] = [];
+  images.forEach(path => {
+    const name = relative(folder, path);
+    let detection: Detection;
+    try {
+      detection = classifyFrame(decodePng(readFileSync(path)), file);
+    } catch (err) {
+      console.error(`${name}: ошибка — ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+
+    const expected = labelFor(folder, path, file.outcomes);
+    const mark = expected === undefined ? '' : expected === detection.result ? '  ✓' : `  ✗ ожидалось ${labelText(file.outcomes, expected)}`;
+    console.log(
+      `${name}\t${detectionText(file.outcomes, detection)}\t` +
+      `оценка ${(detection.score * 100).toFixed(1)}%\tуверенность ${(detection.confidence * 100).toFixed(0)}%${mark}`
+    );
+    if (expected !== undefined) predictions.push({ expected, predicted: detection.result });
+  });
+
+  if (predictions.length > 0) printConfusionMatrix(predictions, file.outcomes);
+  return 0;
+};
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (err) {
+  console.error(err instanceof Error ? err.message : String(err));
+  process.exitCode = 1;
+}
@@ -0,0 +1,88 @@
+import { inflateSync } from 'node:zlib';
+import { PixelBuffer, createPixelBuffer } from '@/lib/pixels';
+
+const SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+};
+
+// Минимальный декодер PNG для скриншотов: 8 бит на канал, без чересстрочности
+export const decodePng = (file: Buffer): PixelBuffer => {
+  if (!SIGNATURE.every((byte, i) => file[i] === byte)) throw new Error('Файл не является PNG');
+
+  let width = 0;
+  let height = 0;
+  let colorType = 0;
+  let palette: Buffer | null = null;
+  const chunks: Buffer[] = [];
+
+  for (let offset = 8; offset < file.length;) {
+    const length = file.readUInt32BE(offset);
+    const type = file.toString('ascii', offset + 4, offset + 8);
+    const data = file.subarray(offset + 8, offset + 8 + length);
+    offset += length + 12;
+
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      colorType = data[9];
+      if (data[8] !== 8) throw new Error(`Поддерживается только глубина 8 бит, в файле ${data[8]}`);
+      if (data[12] !== 0) throw new Error('Чересстрочные PNG не поддерживаются');
+      if (!(colorType in CHANNELS)) throw new Error(`Неизвестный тип цвета PNG: ${colorType}`);
+    } else if (type === 'PLTE') {
+      palette = data;
+    } else if (type === 'IDAT') {
+      chunks.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  const channels = CHANNELS[colorType];
+  const stride = width * channels;
+  const raw = inflateSync(Buffer.concat(chunks));
+  const rows = Buffer.alloc(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const out = y * stride;
+
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? rows[out + x - channels] : 0;
+      const up = y > 0 ? rows[out - stride + x] : 0;
+      const upLeft = y > 0 && x >= channels ? rows[out - stride + x - channels] : 0;
+      const predictor =
+        filter === 1 ? left :
+        filter === 2 ? up :
+        filter === 3 ? (left + up) >> 1 :
+        filter === 4 ? paeth(left, up, upLeft) :
+        0;
+      rows[out + x] = (line[x] + predictor) & 0xff;
+    }
+  }
+
+  const pixels = createPixelBuffer(width, height);
+  for (let i = 0; i < width * height; i++) {
+    const src = i * channels;
+    const dst = i * 4;
+    if (colorType === 3) {
+      if (!palette) throw new Error('В PNG с палитрой нет блока PLTE');
+      const index = rows[src] * 3;
+      pixels.data.set([palette[index], palette[index + 1], palette[index + 2], 255], dst);
+    } else if (colorType === 0 || colorType === 4) {
+      const gray = rows[src];
+      pixels.data.set([gray, gray, gray, colorType === 4 ? rows[src + 1] : 255], dst);
+    } else {
+      pixels.data.set([rows[src], rows[src + 1], rows[src + 2], colorType === 6 ? rows[src + 3] : 255], dst);
+    }
+  }
+
+  return pixels;
+};
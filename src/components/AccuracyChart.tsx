@@ -11,9 +11,11 @@ interface PredictionMethod {
 
 interface AccuracyChartProps {
   methods: PredictionMethod[];
+  outcomeCount: number;
 }
 
-export const AccuracyChart = ({ methods }: AccuracyChartProps) => {
+export const AccuracyChart = ({ methods, outcomeCount }: AccuracyChartProps) => {
+  const chanceLevel = 100 / outcomeCount;
   const maxAccuracy = Math.max(...methods.map(m => m.accuracy), 1);
   const sortedMethods = [...methods].sort((a, b) => b.accuracy - a.accuracy);
 
@@ -63,6 +65,10 @@ export const AccuracyChart = ({ methods }: AccuracyChartProps) => {
             </div>
             
             <div className="relative h-8 bg-muted rounded-lg overflow-hidden">
+              <div
+                className="absolute inset-y-0 border-l-2 border-dashed border-foreground/40 z-10"
+                style={{ left: `${chanceLevel}%` }}
+              />
               <div
                 className="absolute inset-y-0 left-0 rounded-lg transition-all duration-500 ease-out flex items-center justify-end px-3"
                 style={{
@@ -90,7 +96,7 @@ export const AccuracyChart = ({ methods }: AccuracyChartProps) => {
       </div>
 
       {methods.some(m => m.predictions > 0) && (
-        <div className="pt-4 border-t grid grid-cols-3 gap-4 text-center">
+        <div className="pt-4 border-t grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
           <div>
             <div className="text-2xl font-bold text-primary">
               {Math.max(...methods.map(m => m.accuracy)).toFixed(1)}%
@@ -109,6 +115,12 @@ export const AccuracyChart = ({ methods }: AccuracyChartProps) => {
             </div>
             <div className="text-xs text-muted-foreground">Всего прогнозов</div>
           </div>
+          <div>
+            <div className="text-2xl font-bold text-muted-foreground">
+              {chanceLevel.toFixed(1)}%
+            </div>
+            <div className="text-xs text-muted-foreground">Случайный уровень (1/{outcomeCount})</div>
+          </div>
         </div>
       )}
     </Card>
@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import Icon from '@/components/ui/icon';
+import { NEUTRAL_OUTCOME, Outcome, Result, getOutcome } from '@/lib/outcomes';
+import {
+  CalibrationSample,
+  MIN_SAMPLES_PER_STATE,
+  SAMPLES_PER_BURST,
+  SAMPLE_INTERVAL_MS,
+  countSamples,
+  recommendThresholds
+} from '@/lib/calibration';
+
+interface CalibrationWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  outcomes: Outcome[];
+  currentThresholds: Record<Result, number>;
+  onSample: () => Promise<Record<Result, number> | null>;
+  onApply: (thresholds: Record<Result, number>) => void;
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+const DistributionPlot = ({ positives, negatives, threshold, color }: {
+  positives: number[];
+  negatives: number[];
+  threshold: number;
+  color: string;
+}) => (
+  <div className="relative h-8 rounded bg-muted overflow-hidden">
+    {negatives.map((score, i) => (
+      <span
+        key={`n${i}`}
+        className="absolute bottom-1 w-1.5 h-2.5 rounded-sm bg-muted-foreground/60 -translate-x-1/2"
+        style={{ left: `${score * 100}%` }}
+      />
+    ))}
+    {positives.map((score, i) => (
+      <span
+        key={`p${i}`}
+        className="absolute top-1 w-1.5 h-2.5 rounded-sm -translate-x-1/2"
+        style={{ left: `${score * 100}%`, backgroundColor: color }}
+      />
+    ))}
+    <span className="absolute inset-y-0 w-0.5 bg-foreground" style={{ left: `${threshold * 100}%` }} />
+  </div>
+);
+
+export const CalibrationWizard = ({
+  open,
+  onOpenChange,
+  outcomes,
+  currentThresholds,
+  onSample,
+  onApply
+}: CalibrationWizardProps) => {
+  const [samples, setSamples] = useState<CalibrationSample[]>([]);
+  const [step, setStep] = useState(0);
+  const [collecting, setCollecting] = useState(false);
+
+  const states = [...outcomes, NEUTRAL_OUTCOME].map(o => ({ id: o.id, label: o.label, color: o.color }));
+  const isReview = step >= states.length;
+  const state = states[Math.min(step, states.length - 1)];
+  const stateCount = countSamples(samples, state.id);
+  const recommendations = isReview ? recommendThresholds(outcomes, samples) : [];
+
+  const collect = async () => {
+    setCollecting(true);
+    const collected: CalibrationSample[] = [];
+    for (let i = 0; i < SAMPLES_PER_BURST; i++) {
+      const scores = await onSample();
+      if (scores) collected.push({ state: state.id, scores });
+      await new Promise(resolve => setTimeout(resolve, SAMPLE_INTERVAL_MS));
+    }
+    setSamples(prev => [...prev, ...collected]);
+    setCollecting(false);
+  };
+
+  const reset = () => {
+    setSamples([]);
+    setStep(0);
+  };
+
+  const apply = () => {
+    onApply(Object.fromEntries(recommendations.map(r => [r.outcome, r.threshold])));
+    onOpenChange(false);
+    reset();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Icon name="Gauge" size={20} className="text-primary" />
+            Калибровка порогов
+          </DialogTitle>
+          <DialogDescription>
+            {isReview
+              ? 'Рекомендованные пороги разделяют распределения оценок по каждому исходу'
+              : `Шаг ${step + 1} из ${states.length + 1}: дождитесь, пока на экране будет «${state.label}», и снимите кадры`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!isReview ? (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {states.map((s, i) => (
+                <Badge
+                  key={s.id}
+                  variant={i === step ? 'default' : 'outline'}
+                  style={i === step ? { backgroundColor: s.color } : { borderColor: s.color, color: s.color }}
+                >
+                  {s.label}: {countSamples(samples, s.id)}
+                </Badge>
+              ))}
+            </div>
+
+            <div className="p-4 rounded-lg border-2 space-y-3" style={{ borderColor: state.color }}>
+              <div className="flex items-center justify-between">
+                <span className="font-medium" style={{ color: state.color }}>{state.label}</span>
+                <span className="text-sm font-mono text-muted-foreground">
+                  {stateCount}/{MIN_SAMPLES_PER_STATE} мин.
+                </span>
+              </div>
+              <Progress value={Math.min(100, (stateCount / MIN_SAMPLES_PER_STATE) * 100)} className="h-2" />
+              <div className="flex gap-2">
+                <Button onClick={collect} disabled={collecting} className="flex-1">
+                  <Icon name={collecting ? 'Loader2' : 'Camera'} size={16} className={`mr-2 ${collecting ? 'animate-spin' : ''}`} />
+                  Снять {SAMPLES_PER_BURST} кадров
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setSamples(samples.filter(s => s.state !== state.id))}
+                  disabled={collecting || stateCount === 0}
+                >
+                  <Icon name="RotateCcw" size={16} />
+                </Button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {recommendations.map(rec => {
+              const outcome = getOutcome(outcomes, rec.outcome);
+              return (
+                <div key={rec.outcome} className="space-y-2">
+                  <div className="flex items-center justify-between gap-2 flex-wrap">
+                    <span className="font-medium" style={{ color: outcome.color }}>{outcome.label}</span>
+                    <div className="flex items-center gap-2 text-xs font-mono">
+                      <span className="text-muted-foreground">
+                        {formatPercent(currentThresholds[rec.outcome] ?? 0)} → {formatPercent(rec.threshold)}
+                      </span>
+                      <Badge variant={rec.falsePositiveRate > 0 ? 'destructive' : 'outline'}>
+                        ложные {formatPercent(rec.falsePositiveRate)}
+                      </Badge>
+                      <Badge variant={rec.falseNegativeRate > 0 ? 'destructive' : 'outline'}>
+                        пропуски {formatPercent(rec.falseNegativeRate)}
+                      </Badge>
+                    </div>
+                  </div>
+                  <DistributionPlot
+                    positives={rec.positives}
+                    negatives={rec.negatives}
+                    threshold={rec.threshold}
+                    color={outcome.color}
+                  />
+                </div>
+              );
+            })}
+            <p className="text-xs text-muted-foreground">
+              Сверху — кадры с этим исходом, снизу — остальные состояния; черта показывает рекомендованный порог
+            </p>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between pt-2 border-t border-border">
+          <Button variant="ghost" onClick={reset} disabled={collecting || samples.length === 0}>
+            Начать заново
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setStep(step - 1)} disabled={collecting || step === 0}>
+              Назад
+            </Button>
+            {isReview ? (
+              <Button onClick={apply}>
+                <Icon name="Check" size={16} className="mr-2" />
+                Применить пороги
+              </Button>
+            ) : (
+              <Button onClick={() => setStep(step + 1)} disabled={collecting || stateCount < MIN_SAMPLES_PER_STATE}>
+                Далее
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,168 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import Icon from '@/components/ui/icon';
+import { rgbToHex } from '@/lib/color';
+import { ColorProfile, ColorRange, ColorSpace, getColorRange } from '@/lib/colorProfiles';
+import { NEUTRAL_OUTCOME, Outcome, Result } from '@/lib/outcomes';
+
+interface ColorProfileEditorProps {
+  profiles: ColorProfile[];
+  outcomes: Outcome[];
+  activeProfileId: string;
+  pickTarget: Result | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onDelete: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onRangeChange: (outcome: Result, patch: Partial<ColorRange>) => void;
+  onPickStart: (outcome: Result | null) => void;
+  onNeutralToggle: (enabled: boolean) => void;
+}
+
+interface RangeCardProps {
+  outcome: Outcome;
+  range: ColorRange;
+  isPicking: boolean;
+  onRangeChange: (outcome: Result, patch: Partial<ColorRange>) => void;
+  onPickStart: (outcome: Result | null) => void;
+}
+
+const RangeCard = ({ outcome, range, isPicking, onRangeChange, onPickStart }: RangeCardProps) => (
+  <div className="p-4 rounded-lg border border-border space-y-3">
+    <div className="flex items-center justify-between">
+      <div className="flex items-center gap-2">
+        <div
+          className="w-5 h-5 rounded border border-border"
+          style={{ backgroundColor: rgbToHex(range.color) }}
+        />
+        <span className="font-semibold">{outcome.label}</span>
+        <Badge variant="outline" className="font-mono text-xs">{rgbToHex(range.color)}</Badge>
+      </div>
+      <Button
+        size="sm"
+        variant={isPicking ? 'default' : 'outline'}
+        onClick={() => onPickStart(isPicking ? null : outcome.id)}
+      >
+        <Icon name="Pipette" size={14} className="mr-2" />
+        {isPicking ? 'Кликните на превью' : 'Пипетка'}
+      </Button>
+    </div>
+
+    <ToggleGroup
+      type="single"
+      size="sm"
+      value={range.space}
+      onValueChange={(value) => value && onRangeChange(outcome.id, { space: value as ColorSpace })}
+      className="justify-start"
+    >
+      <ToggleGroupItem value="hsv">HSV</ToggleGroupItem>
+      <ToggleGroupItem value="lab">Lab</ToggleGroupItem>
+    </ToggleGroup>
+
+    <div>
+      <Label className="text-sm mb-2 block">
+        Допуск: {range.tolerance}{range.space === 'lab' ? ' ΔE' : '%'}
+      </Label>
+      <Slider
+        value={[range.tolerance]}
+        onValueChange={(values) => onRangeChange(outcome.id, { tolerance: values[0] })}
+        min={1}
+        max={60}
+        step={1}
+      />
+    </div>
+  </div>
+);
+
+export const ColorProfileEditor = ({
+  profiles,
+  outcomes,
+  activeProfileId,
+  pickTarget,
+  onSelect,
+  onCreate,
+  onDelete,
+  onRename,
+  onRangeChange,
+  onPickStart,
+  onNeutralToggle
+}: ColorProfileEditorProps) => {
+  const profile = profiles.find(p => p.id === activeProfileId) ?? profiles[0];
+  const neutralRange = profile.colors[NEUTRAL_OUTCOME.id];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <Select value={profile.id} onValueChange={onSelect}>
+          <SelectTrigger className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {profiles.map(p => (
+              <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="icon" onClick={onCreate} title="Новый профиль">
+          <Icon name="Plus" size={18} />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => onDelete(profile.id)}
+          disabled={profiles.length <= 1}
+          title="Удалить профиль"
+        >
+          <Icon name="Trash2" size={18} />
+        </Button>
+      </div>
+
+      <Input
+        value={profile.name}
+        onChange={(e) => onRename(profile.id, e.target.value)}
+        placeholder="Название профиля"
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {outcomes.map(outcome => (
+          <RangeCard
+            key={outcome.id}
+            outcome={outcome}
+            range={getColorRange(profile, outcome)}
+            isPicking={pickTarget === outcome.id}
+            onRangeChange={onRangeChange}
+            onPickStart={onPickStart}
+          />
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <Switch id="neutral-color" checked={neutralRange !== undefined} onCheckedChange={onNeutralToggle} />
+          <Label htmlFor="neutral-color" className="cursor-pointer">
+            Цвет экрана ожидания
+          </Label>
+        </div>
+        {neutralRange ? (
+          <RangeCard
+            outcome={NEUTRAL_OUTCOME}
+            range={neutralRange}
+            isPicking={pickTarget === NEUTRAL_OUTCOME.id}
+            onRangeChange={onRangeChange}
+            onPickStart={onPickStart}
+          />
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Без цвета ожидания любой кадр без исхода считается паузой между раундами, даже если он просто не распознан
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
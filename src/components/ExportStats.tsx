@@ -1,13 +1,11 @@
+import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import Icon from '@/components/ui/icon';
 import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
-
-interface HistoryEntry {
-  id: number;
-  result: 'alpha' | 'omega';
-  timestamp: Date;
-}
+import { HistoryEntry, Outcome, countByOutcome, getOutcome } from '@/lib/outcomes';
 
 interface PredictionMethod {
   name: string;
@@ -18,19 +16,22 @@ interface PredictionMethod {
 
 interface ExportStatsProps {
   history: HistoryEntry[];
+  outcomes: Outcome[];
   methods: PredictionMethod[];
   bestMethod: string;
 }
 
-export const ExportStats = ({ history, methods, bestMethod }: ExportStatsProps) => {
+export const ExportStats = ({ history, outcomes, methods, bestMethod }: ExportStatsProps) => {
   const { toast } = useToast();
+  const [includeSnapshots, setIncludeSnapshots] = useState(false);
+  const hasSnapshots = history.some(h => h.snapshot);
 
   const exportToJSON = () => {
     const data = {
       exportDate: new Date().toISOString(),
       totalResults: history.length,
-      alphaCount: history.filter(h => h.result === 'alpha').length,
-      omegaCount: history.filter(h => h.result === 'omega').length,
+      outcomes: outcomes.map(o => ({ id: o.id, label: o.label, symbol: o.symbol, color: o.color })),
+      counts: countByOutcome(history, outcomes),
       bestMethod,
       methods: methods.map(m => ({
         name: m.name,
@@ -40,7 +41,9 @@ export const ExportStats = ({ history, methods, bestMethod }: ExportStatsProps)
       })),
       history: history.map(h => ({
         result: h.result,
-        timestamp: h.timestamp.toISOString()
+        timestamp: h.timestamp.toISOString(),
+        ...(h.snapshot && { scores: h.snapshot.scores }),
+        ...(includeSnapshots && h.snapshot && { snapshot: h.snapshot.image })
       }))
     };
 
@@ -94,7 +97,7 @@ export const ExportStats = ({ history, methods, bestMethod }: ExportStatsProps)
     const headers = ['№', 'Результат', 'Дата и время'];
     const rows = history.map((h, index) => [
       (index + 1).toString(),
-      h.result === 'alpha' ? 'Альфа' : 'Омега',
+      getOutcome(outcomes, h.result).label,
       new Date(h.timestamp).toLocaleString('ru-RU')
     ]);
 
@@ -120,8 +123,7 @@ export const ExportStats = ({ history, methods, bestMethod }: ExportStatsProps)
   };
 
   const copyStatsToClipboard = () => {
-    const alphaCount = history.filter(h => h.result === 'alpha').length;
-    const omegaCount = history.filter(h => h.result === 'omega').length;
+    const counts = countByOutcome(history, outcomes);
     const totalPredictions = methods.reduce((sum, m) => sum + m.predictions, 0);
     const avgAccuracy = methods.reduce((sum, m) => sum + m.accuracy, 0) / methods.length;
 
@@ -129,8 +131,7 @@ export const ExportStats = ({ history, methods, bestMethod }: ExportStatsProps)
 📊 СТАТИСТИКА ПРОГНОЗИРОВАНИЯ
 
 Всего результатов: ${history.length}
-- Альфа: ${alphaCount} (${((alphaCount / history.length) * 100).toFixed(1)}%)
-- Омега: ${omegaCount} (${((omegaCount / history.length) * 100).toFixed(1)}%)
+${outcomes.map(o => `- ${o.label}: ${counts[o.id]} (${((counts[o.id] / history.length) * 100).toFixed(1)}%)`).join('\n')}
 
 🎯 МЕТОДЫ ПРОГНОЗИРОВАНИЯ
 ${methods.map(m => `
@@ -216,6 +217,15 @@ ${m.name}:
         </Button>
       </div>
 
+      {hasSnapshots && (
+        <div className="flex items-center gap-2">
+          <Switch id="export-snapshots" checked={includeSnapshots} onCheckedChange={setIncludeSnapshots} />
+          <Label htmlFor="export-snapshots" className="text-sm text-muted-foreground cursor-pointer">
+            Включать снимки кадров в JSON (data URL)
+          </Label>
+        </div>
+      )}
+
       {history.length === 0 && (
         <div className="text-center py-4 text-sm text-muted-foreground">
           Добавьте результаты для возможности экспорта
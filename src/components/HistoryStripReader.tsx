@@ -0,0 +1,130 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import Icon from '@/components/ui/icon';
+import { CaptureArea } from '@/lib/regions';
+import { Outcome, Result, getOutcome } from '@/lib/outcomes';
+import { MAX_STRIP_CELLS, MIN_STRIP_CELLS, STRIP_DIRECTIONS, StripDirection } from '@/lib/historyStrip';
+
+interface HistoryStripReaderProps {
+  strip: CaptureArea | null;
+  drawing: boolean;
+  count: number;
+  direction: StripDirection;
+  preview: (Result | null)[] | null;
+  outcomes: Outcome[];
+  onDrawStart: () => void;
+  onCountChange: (count: number) => void;
+  onDirectionChange: (direction: StripDirection) => void;
+  onRead: () => void;
+  onPreviewChange: (preview: (Result | null)[]) => void;
+  onImport: (results: Result[]) => void;
+}
+
+export const HistoryStripReader = ({
+  strip,
+  drawing,
+  count,
+  direction,
+  preview,
+  outcomes,
+  onDrawStart,
+  onCountChange,
+  onDirectionChange,
+  onRead,
+  onPreviewChange,
+  onImport
+}: HistoryStripReaderProps) => {
+  const recognized = preview?.filter((r): r is Result => r !== null) ?? [];
+
+  // Клик по ячейке перебирает исходы и «не распознано», чтобы поправить ошибку перед импортом
+  const cycleCell = (index: number) => {
+    if (!preview) return;
+    const options: (Result | null)[] = [...outcomes.map(o => o.id), null];
+    const next = options[(options.indexOf(preview[index]) + 1) % options.length];
+    onPreviewChange(preview.map((r, i) => (i === index ? next : r)));
+  };
+
+  return (
+    <div className="p-4 bg-muted rounded-lg space-y-3">
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <Button size="sm" variant={drawing ? 'default' : 'outline'} onClick={onDrawStart}>
+          <Icon name="Rows3" size={14} className="mr-2" />
+          {drawing ? 'Выделите ленту на кадре' : strip ? 'Выделить заново' : 'Выделить ленту'}
+        </Button>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground">Фишек</span>
+          <Input
+            type="number"
+            min={MIN_STRIP_CELLS}
+            max={MAX_STRIP_CELLS}
+            value={count}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (Number.isFinite(value)) {
+                onCountChange(Math.min(MAX_STRIP_CELLS, Math.max(MIN_STRIP_CELLS, Math.round(value))));
+              }
+            }}
+            className="w-20 h-8 font-mono"
+          />
+        </div>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={direction}
+          onValueChange={(value) => value && onDirectionChange(value as StripDirection)}
+        >
+          {STRIP_DIRECTIONS.map(option => (
+            <ToggleGroupItem key={option.value} value={option.value} title={option.label}>
+              <Icon name={option.icon} size={14} />
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <Button size="sm" variant="secondary" onClick={onRead} disabled={!strip}>
+          <Icon name="ScanLine" size={14} className="mr-2" />
+          Распознать
+        </Button>
+      </div>
+
+      {preview && (
+        <div className="space-y-3 pt-3 border-t border-border">
+          <div className="flex flex-wrap gap-1">
+            {preview.map((result, index) => {
+              const outcome = result ? getOutcome(outcomes, result) : null;
+              return (
+                <button
+                  key={index}
+                  type="button"
+                  onClick={() => cycleCell(index)}
+                  className={`w-8 h-8 rounded-md flex items-center justify-center font-bold text-sm ${
+                    outcome ? 'text-white' : 'border border-dashed border-muted-foreground text-muted-foreground'
+                  }`}
+                  style={outcome ? { backgroundColor: outcome.color } : undefined}
+                  title={outcome ? outcome.label : 'Не распознано — будет пропущено'}
+                >
+                  {outcome ? outcome.symbol : '?'}
+                </button>
+              );
+            })}
+          </div>
+          <div className="flex items-center justify-between gap-3 flex-wrap">
+            <div className="flex gap-2">
+              <Badge variant="outline">Распознано {recognized.length}/{preview.length}</Badge>
+              {recognized.length < preview.length && (
+                <Badge variant="destructive">Пропущено {preview.length - recognized.length}</Badge>
+              )}
+            </div>
+            <Button size="sm" onClick={() => onImport(recognized)} disabled={recognized.length === 0}>
+              <Icon name="Download" size={14} className="mr-2" />
+              Импортировать в историю
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Результаты добавятся перед текущей историей от старых к новым; время оценивается по среднему интервалу раундов
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import Icon from '@/components/ui/icon';
+import { NEUTRAL_OUTCOME, Outcome } from '@/lib/outcomes';
+import { LabeledExample, MIN_TRAINING_EXAMPLES, countExamples, holdOutAccuracy } from '@/lib/learnedClassifier';
+
+interface LearnedClassifierPanelProps {
+  examples: LabeledExample[];
+  outcomes: Outcome[];
+  onClear: () => void;
+}
+
+export const LearnedClassifierPanel = ({ examples, outcomes, onClear }: LearnedClassifierPanelProps) => {
+  const counts = countExamples(examples);
+  const evaluation = holdOutAccuracy(examples);
+
+  return (
+    <div className="p-4 bg-muted rounded-lg space-y-3">
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <div className="flex items-center gap-2 flex-wrap">
+          {[...outcomes, NEUTRAL_OUTCOME].map(outcome => (
+            <Badge key={outcome.id} variant="outline" style={{ borderColor: outcome.color, color: outcome.color }}>
+              {outcome.symbol} {outcome.label}: {counts[outcome.id] ?? 0}
+            </Badge>
+          ))}
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClear} disabled={examples.length === 0}>
+          <Icon name="Trash2" size={14} className="mr-2" />
+          Забыть примеры
+        </Button>
+      </div>
+
+      {evaluation ? (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">
+              Точность на отложенных примерах ({evaluation.tested} из {evaluation.tested + evaluation.trained})
+            </span>
+            <span className="font-mono font-semibold">{(evaluation.accuracy * 100).toFixed(0)}%</span>
+          </div>
+          <Progress value={evaluation.accuracy * 100} />
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Примеров: {examples.length}. Для обучения и оценки нужно не меньше {MIN_TRAINING_EXAMPLES}
+        </p>
+      )}
+
+      <p className="text-sm text-muted-foreground">
+        Примеры появляются, когда вы размечаете кадры в очереди проверки или подтверждаете и исправляете
+        записи истории. Классификатор сравнивает кадр с ближайшими размеченными по цветовой гистограмме
+        и уменьшенной копии областей; при изменении набора областей примеры нужно собрать заново
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import Icon from '@/components/ui/icon';
+import { MonitorInfo, MonitorSummary } from '@/lib/monitors';
+import { Outcome, countByOutcome, getOutcome } from '@/lib/outcomes';
+
+interface MonitorOverviewProps {
+  monitors: MonitorInfo[];
+  summaries: Record<string, MonitorSummary>;
+  outcomes: Outcome[];
+  activeMonitorId: string;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+}
+
+export const MonitorOverview = ({
+  monitors,
+  summaries,
+  outcomes,
+  activeMonitorId,
+  onSelect,
+  onAdd
+}: MonitorOverviewProps) => {
+  const allHistory = monitors.flatMap(m => summaries[m.id]?.history ?? []);
+  const totalCounts = countByOutcome(allHistory, outcomes);
+  const activeCount = monitors.filter(m => summaries[m.id]?.isMonitoring).length;
+
+  return (
+    <Card className="p-6 space-y-4 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <Icon name="LayoutGrid" size={20} className="text-primary" />
+          Мониторы
+        </h2>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline">Активно {activeCount}/{monitors.length}</Badge>
+          <Button size="sm" variant="outline" onClick={onAdd}>
+            <Icon name="Plus" size={14} className="mr-1" />
+            Добавить
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {monitors.map(monitor => {
+          const summary = summaries[monitor.id];
+          const history = summary?.history ?? [];
+          const last = history[history.length - 1];
+          const prediction = summary?.currentPrediction ? getOutcome(outcomes, summary.currentPrediction) : null;
+
+          return (
+            <button
+              key={monitor.id}
+              type="button"
+              onClick={() => onSelect(monitor.id)}
+              className={`p-4 rounded-lg border text-left space-y-3 transition-colors ${
+                monitor.id === activeMonitorId ? 'border-primary bg-primary/5' : 'border-border hover:border-primary/50'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium truncate">{monitor.name}</span>
+                {summary?.isMonitoring ? (
+                  <Badge className="bg-green-500">
+                    <Icon name="Radio" size={12} className="mr-1" />
+                    Активен
+                  </Badge>
+                ) : (
+                  <Badge variant="outline">Остановлен</Badge>
+                )}
+              </div>
+
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Результатов</span>
+                <span className="font-mono">{history.length}</span>
+              </div>
+
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Последний</span>
+                {last ? (
+                  <span className="font-medium" style={{ color: getOutcome(outcomes, last.result).color }}>
+                    {getOutcome(outcomes, last.result).symbol} {getOutcome(outcomes, last.result).label}
+                  </span>
+                ) : (
+                  <span className="text-muted-foreground">—</span>
+                )}
+              </div>
+
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Прогноз</span>
+                {prediction ? (
+                  <span className="font-medium" style={{ color: prediction.color }}>
+                    {prediction.label}
+                    <span className="ml-2 text-xs font-mono text-muted-foreground">
+                      {summary.bestAccuracy.toFixed(0)}%
+                    </span>
+                  </span>
+                ) : (
+                  <span className="text-muted-foreground">—</span>
+                )}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="pt-4 border-t border-border space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">Всего по всем мониторам</span>
+          <span className="text-2xl font-bold font-mono">{allHistory.length}</span>
+        </div>
+        {outcomes.map(outcome => {
+          const count = totalCounts[outcome.id] ?? 0;
+          const percent = allHistory.length > 0 ? (count / allHistory.length) * 100 : 0;
+
+          return (
+            <div key={outcome.id}>
+              <div className="flex justify-between text-sm mb-1">
+                <span className="font-medium" style={{ color: outcome.color }}>{outcome.label}</span>
+                <span className="font-mono">{count} ({percent.toFixed(1)}%)</span>
+              </div>
+              <Progress
+                value={percent}
+                className="h-2 bg-muted [&>div]:bg-[var(--outcome-color)]"
+                style={{ '--outcome-color': outcome.color } as React.CSSProperties}
+              />
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,1289 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import Icon from '@/components/ui/icon';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { ScreenCaptureSettings } from '@/components/ScreenCaptureSettings';
+import { AccuracyChart } from '@/components/AccuracyChart';
+import { ExportStats } from '@/components/ExportStats';
+import { useLocalStorage } from '@/hooks/use-local-storage';
+import { useFrameWatcher } from '@/hooks/use-frame-watcher';
+import { useVideoFrameSize } from '@/hooks/use-video-frame-size';
+import { ColorProfile } from '@/lib/colorProfiles';
+import {
+  DetectionRegion,
+  FrameSize,
+  boundingArea,
+  normalizeArea,
+  projectArea,
+  readRegionPixels,
+  regionThumbnail
+} from '@/lib/regions';
+import { CaptureSetup, ClassifierMode, DEFAULT_CAPTURE_SETUP, DEFAULT_MIN_MARGIN, resolveThresholds } from '@/lib/captureSetup';
+import {
+  Detection,
+  DetectorState,
+  RegionSample,
+  ScoringConfig,
+  hasNeutralReference,
+  pickWinner,
+  sampleFeatures
+} from '@/lib/detector';
+import {
+  FEATURES_PER_REGION,
+  LEARNED_SAMPLE_SIZE,
+  LabeledExample,
+  addExample,
+  compatibleExamples,
+  holdOutAccuracy
+} from '@/lib/learnedClassifier';
+import { FrameAnalyzer, createFrameAnalyzer } from '@/lib/frameAnalyzer';
+import { ReviewItem, enqueueReview, markRoundCommitted } from '@/lib/review';
+import { ReviewQueue } from '@/components/ReviewQueue';
+import { withAlpha } from '@/lib/color';
+import { DetectionSnapshot, HistoryEntry, NEUTRAL_OUTCOME, Outcome, Result, countByOutcome, getOutcome } from '@/lib/outcomes';
+import { PredictionMethod, createPredictionMethods } from '@/lib/predictionMethods';
+import { INITIAL_ROUND_STATE, RoundState, advanceRound } from '@/lib/roundState';
+import { MonitorInfo, MonitorSummary, captureSetupKey, learnedExamplesKey } from '@/lib/monitors';
+import {
+  MAX_RELOCATION_LOG,
+  RegionFingerprint,
+  RelocationEvent,
+  captureFingerprint,
+  isRelocation
+} from '@/lib/relocation';
+import { moveArea } from '@/lib/selection';
+import { DEFAULT_ROUND_INTERVAL_MS, averageInterval, estimateTimestamps } from '@/lib/historyStrip';
+import { ReplayControls } from '@/components/ReplayControls';
+import { CalibrationWizard } from '@/components/CalibrationWizard';
+import { createCaptureProfile } from '@/lib/captureProfile';
+import { DEFAULT_VOTING, tallyVotes } from '@/lib/voting';
+import { DEFAULT_DUPLICATE_TOLERANCE, FrameHash, HASH_SIZE, differenceHash, isSameFrame } from '@/lib/perceptualHash';
+import { applyMasks } from '@/lib/pixels';
+import {
+  ColorCorrection,
+  DEFAULT_NORMALIZATION,
+  NORMALIZATION_MODE_LABELS,
+  NORMALIZATION_SAMPLE_SIZE,
+  estimateCorrection,
+  normalizationSource,
+  sameCorrection
+} from '@/lib/normalization';
+import { SnapshotDialog } from '@/components/SnapshotDialog';
+
+const RELOCATE_AFTER_MISSES = 3;
+const RELOCATE_COOLDOWN_MS = 3000;
+
+const CLASSIFIER_SCORE_LABELS: Record<ClassifierMode, string> = {
+  color: 'доля',
+  template: 'сходство',
+  learned: 'соседи'
+};
+
+const SCREEN_STATE_LABELS: Record<DetectorState, string> = {
+  result: 'Результат',
+  neutral: 'Ожидание',
+  undecided: 'Не решено',
+  unreadable: 'Не распознано'
+};
+
+const SCREEN_STATE_ICONS: Record<DetectorState, string> = {
+  result: 'CircleCheck',
+  neutral: 'Hourglass',
+  undecided: 'Scale',
+  unreadable: 'CircleHelp'
+};
+
+interface MonitorPanelProps {
+  monitor: MonitorInfo;
+  hidden: boolean;
+  outcomes: Outcome[];
+  colorProfiles: ColorProfile[];
+  activeProfileId: string;
+  onColorProfilesChange: (profiles: ColorProfile[]) => void;
+  onActiveProfileChange: (id: string) => void;
+  onEditOutcomes: () => void;
+  onSummaryChange: (summary: MonitorSummary) => void;
+}
+
+export const MonitorPanel = ({
+  monitor,
+  hidden,
+  outcomes,
+  colorProfiles,
+  activeProfileId,
+  onColorProfilesChange,
+  onActiveProfileChange,
+  onEditOutcomes,
+  onSummaryChange
+}: MonitorPanelProps) => {
+  const { toast: showToast } = useToast();
+  const toast = (props: Parameters<typeof showToast>[0]) =>
+    showToast({ ...props, title: `${monitor.name} · ${props.title}` });
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  // Последняя отрисованная история: addResult вызывается после ожидания кадров и не должен видеть устаревшее замыкание
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  const [currentPrediction, setCurrentPrediction] = useState<Result | null>(null);
+  const [bestMethod, setBestMethod] = useState<string>('');
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [captureSetup, setCaptureSetup] = useLocalStorage<CaptureSetup>(captureSetupKey(monitor.id), DEFAULT_CAPTURE_SETUP);
+  const [learnedExamples, setLearnedExamples] = useLocalStorage<LabeledExample[]>(learnedExamplesKey(monitor.id), []);
+  const regions = captureSetup.regions;
+  const [isMonitoring, setIsMonitoring] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [sensitivity, setSensitivity] = useState(30);
+  const [lastDetected, setLastDetected] = useState<{
+    result: Result;
+    time: string;
+    score: number;
+    votes: number;
+    frames: number;
+  } | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const analyzerRef = useRef<FrameAnalyzer | null>(null);
+  const analyzingRef = useRef(false);
+  // Кадр успокоился во время голосования: анализ нужно повторить, иначе это событие потеряется
+  const settlePendingRef = useRef(false);
+  const streamRef = useRef<MediaStream | null>(null);
+  const roundRef = useRef<RoundState>(INITIAL_ROUND_STATE);
+  const [round, setRound] = useState<RoundState>(INITIAL_ROUND_STATE);
+  const [lastAnalysis, setLastAnalysis] = useState<Detection | null>(null);
+  const [reviewQueue, setReviewQueue] = useState<ReviewItem[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [replayFile, setReplayFile] = useState<{ name: string; url: string } | null>(null);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [expectedText, setExpectedText] = useState('');
+  const [replayStartIndex, setReplayStartIndex] = useState(0);
+  const [openedEntry, setOpenedEntry] = useState<HistoryEntry | null>(null);
+  const monitoredFrameRef = useRef<FrameSize | null>(null);
+  const [frameSizeWarning, setFrameSizeWarning] = useState<string | null>(null);
+  const frameSize = useVideoFrameSize(videoRef);
+  const fingerprintsRef = useRef<RegionFingerprint[]>([]);
+  const relocationCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const missStreakRef = useRef(0);
+  const lastRelocationRef = useRef(0);
+  const [relocations, setRelocations] = useState<RelocationEvent[]>([]);
+  const entryHashRef = useRef<FrameHash | null>(null);
+  const sampleCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [suppressedDuplicates, setSuppressedDuplicates] = useState(0);
+  const [correction, setCorrection] = useState<ColorCorrection | null>(null);
+  const correctionRef = useRef<ColorCorrection | null>(null);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const thresholds = resolveThresholds(captureSetup, sensitivity, outcomes);
+  const hasClassThresholds = Object.keys(captureSetup.classThresholds ?? {}).length > 0;
+  const minMargin = captureSetup.minMargin ?? DEFAULT_MIN_MARGIN;
+  const voting = captureSetup.voting ?? DEFAULT_VOTING;
+  const duplicateTolerance = captureSetup.duplicateTolerance ?? DEFAULT_DUPLICATE_TOLERANCE;
+  // Примеры, снятые при другом наборе областей, в обучении и оценке не участвуют
+  const trainingExamples = useMemo(
+    () => compatibleExamples(learnedExamples, captureSetup.regions.length * FEATURES_PER_REGION),
+    [learnedExamples, captureSetup.regions.length]
+  );
+  const learnedAccuracy = useMemo(() => holdOutAccuracy(trainingExamples), [trainingExamples]);
+  const normalization = captureSetup.normalization ?? DEFAULT_NORMALIZATION;
+  const pixelRegions = useMemo(() => regions.map(r => projectArea(r, frameSize)), [regions, frameSize]);
+
+  const [methods, setMethods] = useState<PredictionMethod[]>(createPredictionMethods);
+  const [analyzerError, setAnalyzerError] = useState<string | null>(null);
+  // Была ли ошибка в текущей серии кадров: без неё сообщение об ошибке снимается после анализа
+  const analyzerFailedRef = useRef(false);
+
+  const reportAnalyzerError = (message: string) => {
+    analyzerFailedRef.current = true;
+    setAnalyzerError(message);
+  };
+
+  useEffect(() => {
+    const analyzer = createFrameAnalyzer(reportAnalyzerError);
+    analyzerRef.current = analyzer;
+    return () => {
+      analyzer.dispose();
+      analyzerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    return () => {
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      if (video?.src.startsWith('blob:')) URL.revokeObjectURL(video.src);
+    };
+  }, []);
+
+  useEffect(() => {
+    const best = methods.find(m => m.name === bestMethod);
+    onSummaryChange({
+      id: monitor.id,
+      isMonitoring,
+      history,
+      currentPrediction,
+      bestMethod,
+      bestAccuracy: best?.accuracy ?? 0,
+      regionOutcomes: regions.map(r => r.outcome)
+    });
+  }, [monitor.id, isMonitoring, history, currentPrediction, bestMethod, methods, regions, onSummaryChange]);
+
+  useEffect(() => {
+    if (history.length > 0) {
+      makePrediction();
+    }
+  }, [history]);
+
+  useEffect(() => {
+    if (videoRef.current && replayFile) {
+      videoRef.current.playbackRate = playbackRate;
+    }
+  }, [playbackRate, replayFile]);
+
+  const watchStatus = useFrameWatcher({
+    videoRef,
+    areas: pixelRegions,
+    enabled: isMonitoring,
+    onSettled: () => {
+      runAnalysis();
+    },
+    settleMs: 600 / playbackRate,
+    checkIntervalMs: Math.max(16, 100 / playbackRate)
+  });
+
+  const makePrediction = () => {
+    const updatedMethods = methods.map(method => {
+      const prediction = method.predict(history, outcomes.map(o => o.id));
+      return { ...method, lastPrediction: prediction };
+    });
+
+    const bestMethodObj = updatedMethods.reduce((best, current) => 
+      current.accuracy > best.accuracy ? current : best
+    );
+
+    setCurrentPrediction(bestMethodObj.lastPrediction as Result);
+    setBestMethod(bestMethodObj.name);
+    setMethods(updatedMethods);
+  };
+
+  const startScreenCapture = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getDisplayMedia({
+        video: { mediaSource: 'screen' as any }
+      });
+      streamRef.current = stream;
+      
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        videoRef.current.play();
+      }
+      
+      setIsCapturing(true);
+      toast({
+        title: "Захват экрана активен",
+        description: "Выделите области индикаторов для каждого исхода"
+      });
+    } catch (err) {
+      toast({
+        title: "Ошибка",
+        description: "Не удалось начать захват экрана",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const loadVideoFile = (file: File) => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const url = URL.createObjectURL(file);
+    video.srcObject = null;
+    video.src = url;
+    video.muted = true;
+    video.onended = () => {
+      toast({
+        title: "Запись закончилась",
+        description: "Воспроизведение файла завершено"
+      });
+    };
+    video.onerror = () => {
+      toast({
+        title: "Ошибка",
+        description: "Не удалось открыть видеофайл",
+        variant: "destructive"
+      });
+    };
+
+    setReplayFile({ name: file.name, url });
+    setIsCapturing(true);
+    toast({
+      title: "Запись загружена",
+      description: "Выделите области индикаторов для каждого исхода"
+    });
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) loadVideoFile(file);
+    e.target.value = '';
+  };
+
+  const openSettings = () => {
+    setShowSettings(true);
+  };
+
+  const handleSetupApply = (setup: CaptureSetup) => {
+    setCaptureSetup(setup);
+    setIsMonitoring(true);
+    setShowSettings(false);
+    if (videoRef.current) {
+      monitoredFrameRef.current = { width: videoRef.current.videoWidth, height: videoRef.current.videoHeight };
+      captureFingerprints(videoRef.current, setup);
+    }
+    setFrameSizeWarning(null);
+    missStreakRef.current = 0;
+
+    if (replayFile && videoRef.current) {
+      if (!isMonitoring) setReplayStartIndex(history.length);
+      videoRef.current.playbackRate = playbackRate;
+      videoRef.current.play();
+    }
+    
+    toast({
+      title: "Мониторинг запущен",
+      description: "Система начала автоматическое распознавание результатов"
+    });
+  };
+
+  const checkFrameSize = (frame: FrameSize) => {
+    const previous = monitoredFrameRef.current;
+    monitoredFrameRef.current = frame;
+    if (!previous || (previous.width === frame.width && previous.height === frame.height)) return;
+
+    const change = `${previous.width}×${previous.height} → ${frame.width}×${frame.height}`;
+    setFrameSizeWarning(change);
+    toast({
+      title: "Размер кадра изменился",
+      description: `${change}. Области пересчитаны пропорционально, проверьте их положение`,
+      variant: "destructive"
+    });
+  };
+
+  const getRelocationCanvas = () => {
+    if (!relocationCanvasRef.current) relocationCanvasRef.current = document.createElement('canvas');
+    return relocationCanvasRef.current;
+  };
+
+  const captureFingerprints = (video: HTMLVideoElement, setup: CaptureSetup) => {
+    const frame = { width: video.videoWidth, height: video.videoHeight };
+    if (frame.width === 0 || frame.height === 0) return;
+    const canvas = getRelocationCanvas();
+    fingerprintsRef.current = setup.regions
+      .map(region => captureFingerprint(video, canvas, region.id, projectArea(region, frame), frame))
+      .filter((fp): fp is RegionFingerprint => fp !== null);
+  };
+
+  // Перебор сдвигов тяжёлый, поэтому идёт в воркере анализа, как и остальная работа с пикселями
+  const relocateRegions = async (video: HTMLVideoElement, frame: FrameSize) => {
+    const fingerprints = fingerprintsRef.current;
+    if (!analyzerRef.current) return;
+    const matches = await analyzerRef.current.locate(video, fingerprints, frame);
+    // пока шёл поиск, области могли перенастроить
+    if (fingerprintsRef.current !== fingerprints) return;
+
+    const moved = new Map<string, { dx: number; dy: number }>();
+    const events: RelocationEvent[] = [];
+
+    fingerprintsRef.current = fingerprints.map((fp, i) => {
+      const region = regions.find(r => r.id === fp.regionId);
+      const match = region ? matches[i] : null;
+      if (!region || !match || !isRelocation(match)) return fp;
+
+      moved.set(fp.regionId, { dx: match.dx, dy: match.dy });
+      events.push({
+        id: Date.now() + events.length,
+        timestamp: new Date(),
+        regionLabel: region.label,
+        dx: Math.round(match.dx),
+        dy: Math.round(match.dy),
+        score: match.score
+      });
+      return { ...fp, area: { ...fp.area, x: fp.area.x + match.dx, y: fp.area.y + match.dy } };
+    });
+
+    if (moved.size === 0) return;
+
+    setCaptureSetup(setup => ({
+      ...setup,
+      regions: setup.regions.map(region => {
+        const offset = moved.get(region.id);
+        if (!offset) return region;
+        return normalizeArea(moveArea(projectArea(region, frame), offset.dx, offset.dy, frame), frame);
+      })
+    }));
+    setRelocations(log => [...events, ...log].slice(0, MAX_RELOCATION_LOG));
+    missStreakRef.current = 0;
+    toast({
+      title: "Область перемещена",
+      description: events.map(e => `${e.regionLabel}: ${e.dx > 0 ? '+' : ''}${e.dx}, ${e.dy > 0 ? '+' : ''}${e.dy} px`).join('; ')
+    });
+  };
+
+  const trackConfidence = (detection: Detection, video: HTMLVideoElement, frame: FrameSize) => {
+    // экран ожидания тоже подтверждает, что области стоят на месте
+    if (detection.result || detection.state === 'neutral') {
+      missStreakRef.current = 0;
+      return;
+    }
+
+    missStreakRef.current++;
+    const now = Date.now();
+    if (
+      missStreakRef.current >= RELOCATE_AFTER_MISSES &&
+      fingerprintsRef.current.length > 0 &&
+      now - lastRelocationRef.current >= RELOCATE_COOLDOWN_MS
+    ) {
+      lastRelocationRef.current = now;
+      relocateRegions(video, frame).catch(err => reportAnalyzerError(err instanceof Error ? err.message : String(err)));
+    }
+  };
+
+  const getSampleCanvas = () => {
+    if (!sampleCanvasRef.current) sampleCanvasRef.current = document.createElement('canvas');
+    return sampleCanvasRef.current;
+  };
+
+  const hashFrame = (video: HTMLVideoElement, projected: DetectionRegion[]): FrameHash => {
+    const canvas = getSampleCanvas();
+    return projected.map(region => {
+      const pixels = readRegionPixels(video, canvas, region, HASH_SIZE);
+      return pixels ? differenceHash(applyMasks(pixels, region.masks ?? [])) : '';
+    });
+  };
+
+  const estimateFrameCorrection = (video: HTMLVideoElement) => {
+    if (captureSetup.classifier !== 'color') return null;
+    const source = normalizationSource(normalization, { width: video.videoWidth, height: video.videoHeight });
+    const pixels = source && readRegionPixels(video, getSampleCanvas(), source, NORMALIZATION_SAMPLE_SIZE);
+    return pixels ? estimateCorrection(pixels, normalization) : null;
+  };
+
+  const captureFeatures = (video: HTMLVideoElement, projected: DetectionRegion[]) => {
+    const canvas = getSampleCanvas();
+    const samples: RegionSample[] = [];
+    for (const region of projected) {
+      const pixels = readRegionPixels(video, canvas, region, LEARNED_SAMPLE_SIZE);
+      if (!pixels) return undefined;
+      samples.push({ region, pixels });
+    }
+    return sampleFeatures(samples);
+  };
+
+  const learnExample = (features: number[], label: Result) => {
+    setLearnedExamples(examples => addExample(examples, { features, label, createdAt: Date.now() }));
+  };
+
+  const scoringConfig = (frameCorrection: ColorCorrection | null = null): ScoringConfig => ({
+    classifier: captureSetup.classifier,
+    profile: colorProfiles.find(p => p.id === activeProfileId) ?? colorProfiles[0],
+    outcomes,
+    templates: captureSetup.templates,
+    correction: frameCorrection,
+    examples: trainingExamples
+  });
+
+  const scoreFrame = (video: HTMLVideoElement, projected: DetectionRegion[]) => {
+    if (!analyzerRef.current) return Promise.resolve(null);
+    const frameCorrection = estimateFrameCorrection(video);
+    if (!sameCorrection(correctionRef.current, frameCorrection)) {
+      correctionRef.current = frameCorrection;
+      setCorrection(frameCorrection);
+    }
+    return analyzerRef.current.analyze(video, projected, scoringConfig(frameCorrection));
+  };
+
+  const sampleCalibrationFrame = () => {
+    const video = videoRef.current;
+    if (!video || regions.length === 0 || video.videoWidth === 0) return Promise.resolve(null);
+    const frame = { width: video.videoWidth, height: video.videoHeight };
+    return scoreFrame(video, regions.map(r => projectArea(r, frame)));
+  };
+
+  const applyCalibration = (classThresholds: Record<Result, number>) => {
+    setCaptureSetup(setup => ({ ...setup, classThresholds }));
+    toast({
+      title: "Пороги откалиброваны",
+      description: outcomes.map(o => `${o.label}: ${Math.round((classThresholds[o.id] ?? 0) * 100)}%`).join(', ')
+    });
+  };
+
+  const exportCaptureProfile = () => {
+    const profile = colorProfiles.find(p => p.id === activeProfileId) ?? colorProfiles[0];
+    const data = createCaptureProfile(captureSetup, profile, outcomes, sensitivity, trainingExamples);
+
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `capture-profile-${Date.now()}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: "Профиль захвата сохранён",
+      description: "Файл можно передать в npm run detect для проверки архива скриншотов"
+    });
+  };
+
+  const runAnalysis = () => {
+    analyzeScreen().catch(err => reportAnalyzerError(err instanceof Error ? err.message : String(err)));
+  };
+
+  const analyzeScreen = async () => {
+    if (analyzingRef.current) {
+      settlePendingRef.current = true;
+      return;
+    }
+    if (!videoRef.current || !analyzerRef.current || regions.length === 0) return;
+
+    const video = videoRef.current;
+    const frame = { width: video.videoWidth, height: video.videoHeight };
+    if (frame.width === 0 || frame.height === 0) return;
+    checkFrameSize(frame);
+
+    const projected = regions.map(r => projectArea(r, frame));
+
+    analyzingRef.current = true;
+    analyzerFailedRef.current = false;
+    const detections: Detection[] = [];
+    try {
+      for (let i = 0; i < voting.frames; i++) {
+        if (i > 0) {
+          await new Promise(resolve => setTimeout(resolve, voting.windowMs / playbackRate / (voting.frames - 1)));
+        }
+        const scores = await scoreFrame(video, projected);
+        if (scores) detections.push(pickWinner(scores, thresholds, minMargin));
+      }
+    } finally {
+      analyzingRef.current = false;
+      if (settlePendingRef.current) {
+        settlePendingRef.current = false;
+        runAnalysis();
+      }
+    }
+    if (detections.length === 0) return;
+    if (!analyzerFailedRef.current) setAnalyzerError(null);
+
+    const tally = tallyVotes(detections, voting.required);
+    const winning = tally.result
+      ? detections.filter(d => d.result === tally.result)
+      : detections.filter(d => tally.neutral && d.state === 'neutral');
+    const detection = winning.length > 0
+      ? winning.sort((a, b) => b.score - a.score)[0]
+      : detections[detections.length - 1];
+
+    setLastAnalysis(detection);
+    trackConfidence(detection, video, frame);
+
+    // Как только кадр заметно изменился после записи, следующий исход снова можно записывать
+    const frameHash = hashFrame(video, projected);
+    if (entryHashRef.current && !isSameFrame(entryHashRef.current, frameHash, duplicateTolerance)) {
+      entryHashRef.current = null;
+    }
+    const features = captureFeatures(video, projected);
+
+    // Без эталона ожидания любой кадр без исхода считается экраном ожидания, как раньше
+    const observed = tally.result
+      ?? (tally.neutral || !hasNeutralReference(scoringConfig()) ? NEUTRAL_OUTCOME.id : null);
+
+    // кадры разошлись во мнениях — такой случай тоже стоит разметить вручную
+    if (!tally.result && !tally.neutral && (detection.ambiguous || tally.votes > 0)) {
+      setReviewQueue(queue => enqueueReview(queue, {
+        id: Date.now(),
+        timestamp: new Date(),
+        image: regionThumbnail(video, boundingArea(projected), 240),
+        scores: detection.scores,
+        confidence: detection.confidence,
+        features,
+        frameHash,
+        round: roundRef.current.round,
+        committed: roundRef.current.result ?? undefined
+      }));
+      return;
+    }
+
+    const { state, committed } = advanceRound(roundRef.current, observed, Date.now());
+    roundRef.current = state;
+    setRound(state);
+    if (committed) setReviewQueue(queue => markRoundCommitted(queue, state.round, committed));
+
+    if (committed && entryHashRef.current) {
+      setSuppressedDuplicates(count => count + 1);
+      return;
+    }
+
+    if (committed) {
+      entryHashRef.current = frameHash;
+      const now = new Date();
+      const timeStr = now.toLocaleTimeString('ru-RU');
+      setLastDetected({ result: committed, time: timeStr, score: detection.score, votes: tally.votes, frames: tally.frames });
+      addResult(committed, {
+        image: regionThumbnail(video, boundingArea(projected), 240),
+        scores: detection.scores,
+        features
+      });
+    }
+  };
+
+  const stopMonitoring = () => {
+    setIsMonitoring(false);
+    setIsCapturing(false);
+    const wasReplay = replayFile !== null;
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    }
+    if (replayFile && videoRef.current) {
+      videoRef.current.pause();
+      videoRef.current.removeAttribute('src');
+      videoRef.current.load();
+      URL.revokeObjectURL(replayFile.url);
+      setReplayFile(null);
+    }
+    roundRef.current = INITIAL_ROUND_STATE;
+    setRound(INITIAL_ROUND_STATE);
+    entryHashRef.current = null;
+    settlePendingRef.current = false;
+    setAnalyzerError(null);
+    toast({
+      title: "Мониторинг остановлен",
+      description: wasReplay ? "Воспроизведение записи остановлено" : "Захват экрана завершен"
+    });
+  };
+
+  const addResult = (result: Result, snapshot?: DetectionSnapshot) => {
+    const newEntry: HistoryEntry = {
+      id: Date.now(),
+      result,
+      timestamp: new Date(),
+      snapshot
+    };
+
+    const previous = historyRef.current;
+    if (previous.length > 0) {
+      const ids = outcomes.map(o => o.id);
+      const predictions = new Map(methods.map(method => [method.name, method.predict(previous, ids)]));
+      setMethods(current => current.map(method => {
+        const isCorrect = predictions.get(method.name) === result;
+        return {
+          ...method,
+          predictions: method.predictions + 1,
+          correct: method.correct + (isCorrect ? 1 : 0),
+          accuracy: ((method.correct + (isCorrect ? 1 : 0)) / (method.predictions + 1)) * 100
+        };
+      }));
+    }
+
+    setHistory(current => [...current, newEntry]);
+    
+    toast({
+      title: "Результат добавлен",
+      description: `Зафиксирован результат: ${getOutcome(outcomes, result).label}`
+    });
+  };
+
+  const importHistory = (results: Result[]) => {
+    setHistory(current => {
+      const before = current[0]?.timestamp ?? new Date();
+      const timestamps = estimateTimestamps(results.length, before, averageInterval(current) ?? DEFAULT_ROUND_INTERVAL_MS);
+      const imported: HistoryEntry[] = results.map((result, i) => ({
+        id: timestamps[i].getTime(),
+        result,
+        timestamp: timestamps[i]
+      }));
+      return [...imported, ...current];
+    });
+    toast({
+      title: "История дополнена",
+      description: `Импортировано результатов с ленты: ${results.length}`
+    });
+  };
+
+  const labelReviewItem = (item: ReviewItem, result: Result | null) => {
+    setReviewQueue(queue => queue.filter(i => i.id !== item.id));
+    // «Нет раунда» — тоже разметка: кадр учит классификатор узнавать экран ожидания
+    if (item.features) learnExample(item.features, result ?? NEUTRAL_OUTCOME.id);
+    if (!result) return;
+
+    // Раунд уже попал в историю по чистому кадру — вторая запись была бы дублем
+    const duplicate = Boolean(
+      entryHashRef.current && item.frameHash && isSameFrame(entryHashRef.current, item.frameHash, duplicateTolerance)
+    );
+    if (item.committed === result || duplicate) {
+      setSuppressedDuplicates(count => count + 1);
+      toast({ title: "Раунд уже записан", description: getOutcome(outcomes, result).label });
+      return;
+    }
+
+    if (item.round === roundRef.current.round) {
+      const { state, committed } = advanceRound(roundRef.current, result, Date.now());
+      roundRef.current = state;
+      setRound(state);
+      if (committed) setReviewQueue(queue => markRoundCommitted(queue, state.round, committed));
+    }
+    addResult(result, { image: item.image, scores: item.scores, features: item.features });
+  };
+
+  const labelEntry = (entry: HistoryEntry, result: Result) => {
+    if (entry.snapshot?.features) learnExample(entry.snapshot.features, result);
+    if (result !== entry.result) {
+      setHistory(current => current.map(e => (e.id === entry.id ? { ...e, result } : e)));
+    }
+    setOpenedEntry(null);
+    toast({
+      title: result === entry.result ? "Результат подтверждён" : "Результат исправлен",
+      description: entry.snapshot?.features
+        ? `Кадр добавлен в примеры обучаемого классификатора (${getOutcome(outcomes, result).label})`
+        : getOutcome(outcomes, result).label
+    });
+  };
+
+  const clearHistory = () => {
+    setHistory([]);
+    setCurrentPrediction(null);
+    setBestMethod('');
+    setMethods(current => current.map(m => ({ ...m, accuracy: 0, predictions: 0, correct: 0 })));
+  };
+
+  const outcomeCounts = countByOutcome(history, outcomes);
+  const totalCount = history.length;
+
+  return (
+    <div className={hidden ? 'hidden' : undefined}>
+      <div className="space-y-6">
+        <Card className="p-6 space-y-4 animate-fade-in">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-semibold flex items-center gap-2">
+              <Icon name="Monitor" size={20} className="text-primary" />
+              Захват экрана · {monitor.name}
+            </h2>
+            {isMonitoring && (
+              <Badge className="animate-pulse-glow bg-green-500">
+                <Icon name="Radio" size={12} className="mr-1" />
+                Мониторинг активен
+              </Badge>
+            )}
+          </div>
+
+          <div className="flex gap-3 flex-wrap">
+            {!isCapturing && !isMonitoring && (
+              <>
+                <Button onClick={startScreenCapture} className="flex-1">
+                  <Icon name="ScreenShare" size={18} className="mr-2" />
+                  Начать захват экрана
+                </Button>
+                <Button onClick={() => fileInputRef.current?.click()} className="flex-1" variant="outline">
+                  <Icon name="FileVideo" size={18} className="mr-2" />
+                  Открыть запись
+                </Button>
+              </>
+            )}
+            
+            {isCapturing && (
+              <Button onClick={openSettings} className="flex-1" variant="secondary">
+                <Icon name="Crosshair" size={18} className="mr-2" />
+                Настроить область и чувствительность
+              </Button>
+            )}
+            
+            {isMonitoring && (
+              <Button onClick={stopMonitoring} className="flex-1" variant="destructive">
+                <Icon name="StopCircle" size={18} className="mr-2" />
+                Остановить мониторинг
+              </Button>
+            )}
+          </div>
+
+          <video ref={videoRef} className="hidden" playsInline />
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="video/webm,video/mp4"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+
+          {replayFile && (
+            <ReplayControls
+              videoRef={videoRef}
+              fileName={replayFile.name}
+              playbackRate={playbackRate}
+              onPlaybackRateChange={setPlaybackRate}
+              expectedText={expectedText}
+              onExpectedTextChange={setExpectedText}
+              detected={history.slice(replayStartIndex).map(h => h.result)}
+              outcomes={outcomes}
+            />
+          )}
+
+          {isMonitoring && regions.length > 0 && (
+            <div className="mt-3 p-3 bg-muted rounded-lg space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">
+                  {hasClassThresholds ? 'Пороги по исходам' : 'Чувствительность'}
+                </span>
+                {hasClassThresholds ? (
+                  <div className="flex flex-wrap justify-end gap-1">
+                    {outcomes.map(outcome => (
+                      <Badge key={outcome.id} variant="outline" style={{ color: outcome.color }}>
+                        {outcome.symbol} {Math.round(thresholds[outcome.id] * 100)}%
+                      </Badge>
+                    ))}
+                  </div>
+                ) : (
+                  <Badge variant="outline">{sensitivity}%</Badge>
+                )}
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">Обучаемый классификатор</span>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">примеров {trainingExamples.length}</Badge>
+                  {learnedAccuracy && (
+                    <Badge
+                      variant={captureSetup.classifier === 'learned' ? 'default' : 'secondary'}
+                      title={`Проверено на ${learnedAccuracy.tested} отложенных примерах`}
+                    >
+                      точность {(learnedAccuracy.accuracy * 100).toFixed(0)}%
+                    </Badge>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">Минимальный отрыв</span>
+                <Badge variant="outline">{Math.round(minMargin * 100)}%</Badge>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">Нормализация цвета</span>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">{NORMALIZATION_MODE_LABELS[normalization.mode]}</Badge>
+                  {correction && isMonitoring && (
+                    <Badge variant="secondary" className="font-mono" title="Множители каналов R, G, B для текущего кадра">
+                      {correction.gains.map(g => `×${g.toFixed(2)}`).join(' ')}
+                    </Badge>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">Защита от повторов</span>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">{Math.round(duplicateTolerance * 100)}%</Badge>
+                  {suppressedDuplicates > 0 && (
+                    <Badge variant="secondary" title="Исходы, не записанные из-за неизменного кадра">
+                      подавлено {suppressedDuplicates}
+                    </Badge>
+                  )}
+                </div>
+              </div>
+              {frameSizeWarning && (
+                <div className="flex items-center justify-between text-destructive">
+                  <span className="text-sm flex items-center gap-1">
+                    <Icon name="TriangleAlert" size={14} />
+                    Размер кадра изменился
+                  </span>
+                  <Badge variant="destructive" className="font-mono">{frameSizeWarning}</Badge>
+                </div>
+              )}
+              {analyzerError && (
+                <div className="flex items-center justify-between gap-2 text-destructive">
+                  <span className="text-sm flex items-center gap-1 shrink-0">
+                    <Icon name="TriangleAlert" size={14} />
+                    Ошибка анализа кадра
+                  </span>
+                  <Badge variant="destructive" className="truncate" title={analyzerError}>{analyzerError}</Badge>
+                </div>
+              )}
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">Области распознавания</span>
+                <div className="flex flex-wrap justify-end gap-1">
+                  {pixelRegions.map(region => (
+                    <Badge
+                      key={region.id}
+                      variant="outline"
+                      style={{ borderColor: getOutcome(outcomes, region.outcome).color, color: getOutcome(outcomes, region.outcome).color }}
+                    >
+                      {region.label} · {Math.round(region.width)}×{Math.round(region.height)}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+              {isMonitoring && (
+                <div className="flex items-center justify-between pt-2 border-t border-border">
+                  <span className="text-sm text-muted-foreground">Состояние детектора</span>
+                  <div className="flex items-center gap-2">
+                    {watchStatus === 'changing' ? (
+                      <Badge variant="secondary" className="animate-pulse">
+                        <Icon name="Activity" size={12} className="mr-1" />
+                        Изменение, ждём стабилизации
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline">
+                        <Icon name="Crosshair" size={12} className="mr-1" />
+                        Взведён, ждём изменения
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+              )}
+              {isMonitoring && (
+                <div className="flex items-center justify-between pt-2 border-t border-border">
+                  <span className="text-sm text-muted-foreground">Раунд</span>
+                  {round.phase === 'showing' && round.result ? (
+                    <Badge
+                      variant="outline"
+                      style={{ borderColor: getOutcome(outcomes, round.result).color, color: getOutcome(outcomes, round.result).color }}
+                    >
+                      <Icon name="Eye" size={12} className="mr-1" />
+                      На экране: {getOutcome(outcomes, round.result).label}
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline">
+                      <Icon name="Hourglass" size={12} className="mr-1" />
+                      Ожидание результата
+                    </Badge>
+                  )}
+                </div>
+              )}
+              {lastAnalysis && isMonitoring && (
+                <div className="flex items-center justify-between pt-2 border-t border-border">
+                  <span className="text-sm text-muted-foreground">Состояние экрана</span>
+                  {lastAnalysis.state === 'result' && lastAnalysis.result ? (
+                    <Badge className="text-white" style={{ backgroundColor: getOutcome(outcomes, lastAnalysis.result).color }}>
+                      <Icon name={SCREEN_STATE_ICONS.result} size={12} className="mr-1" />
+                      {getOutcome(outcomes, lastAnalysis.result).label}
+                    </Badge>
+                  ) : (
+                    <Badge
+                      variant={lastAnalysis.state === 'neutral' ? 'secondary' : 'outline'}
+                      style={lastAnalysis.state === 'neutral' ? { color: NEUTRAL_OUTCOME.color } : undefined}
+                    >
+                      <Icon name={SCREEN_STATE_ICONS[lastAnalysis.state]} size={12} className="mr-1" />
+                      {SCREEN_STATE_LABELS[lastAnalysis.state]}
+                    </Badge>
+                  )}
+                </div>
+              )}
+              {lastAnalysis && isMonitoring && (
+                <div className="flex items-center justify-between pt-2 border-t border-border">
+                  <span className="text-sm text-muted-foreground">Последний анализ</span>
+                  <div className="flex items-center gap-3 text-xs font-mono">
+                    {Object.entries(lastAnalysis.scores).map(([id, score]) => (
+                      <span key={id} style={{ color: getOutcome(outcomes, id).color }}>
+                        {getOutcome(outcomes, id).symbol} {(score * 100).toFixed(1)}%
+                      </span>
+                    ))}
+                    {lastAnalysis.undecided ? (
+                      <Badge variant="destructive">
+                        не решено: отрыв {(lastAnalysis.margin * 100).toFixed(1)}% &lt; {(minMargin * 100).toFixed(0)}%
+                      </Badge>
+                    ) : (
+                      <Badge variant={lastAnalysis.ambiguous ? 'destructive' : 'outline'}>
+                        уверенность {(lastAnalysis.confidence * 100).toFixed(0)}%
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+              )}
+              {lastDetected && isMonitoring && (
+                <div className="flex items-center justify-between pt-2 border-t border-border">
+                  <span className="text-sm text-muted-foreground">Последнее распознавание</span>
+                  <div className="flex items-center gap-2">
+                    <Badge
+                      className="text-white"
+                      style={{ backgroundColor: getOutcome(outcomes, lastDetected.result).color }}
+                    >
+                      {getOutcome(outcomes, lastDetected.result).symbol} {getOutcome(outcomes, lastDetected.result).label}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground font-mono">
+                      {CLASSIFIER_SCORE_LABELS[captureSetup.classifier]} {(lastDetected.score * 100).toFixed(0)}%
+                    </span>
+                    <Badge
+                      variant="outline"
+                      className="font-mono"
+                      title={`Нужно совпадение ${voting.required} из ${voting.frames} кадров`}
+                    >
+                      голоса {lastDetected.votes}/{lastDetected.frames}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground font-mono">{lastDetected.time}</span>
+                  </div>
+                </div>
+              )}
+              {relocations.length > 0 && (
+                <div className="pt-2 border-t border-border space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted-foreground">Перемещения областей</span>
+                    <Badge variant="outline">{relocations.length}</Badge>
+                  </div>
+                  {relocations.slice(0, 3).map(event => (
+                    <div key={event.id} className="flex items-center justify-between text-xs font-mono text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <Icon name="Move" size={12} />
+                        {event.regionLabel}: {event.dx > 0 ? '+' : ''}{event.dx}, {event.dy > 0 ? '+' : ''}{event.dy} px
+                      </span>
+                      <span>
+                        {(event.score * 100).toFixed(0)}% · {event.timestamp.toLocaleTimeString('ru-RU')}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="flex gap-2">
+                <Button
+                  size="sm" 
+                  variant="ghost" 
+                  className="flex-1" 
+                  onClick={openSettings}
+                  disabled={!isMonitoring}
+                >
+                  <Icon name="Settings" size={14} className="mr-2" />
+                  Изменить настройки
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="flex-1"
+                  onClick={() => setShowCalibration(true)}
+                  disabled={!isMonitoring}
+                >
+                  <Icon name="Gauge" size={14} className="mr-2" />
+                  Калибровка
+                </Button>
+                <Button size="sm" variant="ghost" onClick={exportCaptureProfile} title="Экспорт профиля захвата">
+                  <Icon name="FileDown" size={14} />
+                </Button>
+              </div>
+            </div>
+          )}
+        </Card>
+
+        {(isMonitoring || reviewQueue.length > 0) && (
+          <ReviewQueue
+            items={reviewQueue}
+            outcomes={outcomes}
+            onLabel={labelReviewItem}
+            onClear={() => setReviewQueue([])}
+          />
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="p-6 space-y-4 lg:col-span-2 animate-fade-in">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-semibold flex items-center gap-2">
+                <Icon name="Zap" size={20} className="text-primary" />
+                Текущий прогноз
+              </h2>
+              {bestMethod && (
+                <Badge variant="outline" className="animate-pulse-glow">
+                  {bestMethod}
+                </Badge>
+              )}
+            </div>
+
+            {currentPrediction ? (
+              <div
+                className="p-8 rounded-lg border-2 text-center space-y-3"
+                style={{
+                  backgroundColor: withAlpha(getOutcome(outcomes, currentPrediction).color, 0.1),
+                  borderColor: getOutcome(outcomes, currentPrediction).color
+                }}
+              >
+                <div className="text-6xl font-bold animate-pulse-glow">
+                  {getOutcome(outcomes, currentPrediction).label.toUpperCase()}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Следующий прогноз основан на анализе {history.length} результатов
+                </p>
+              </div>
+            ) : (
+              <div className="p-8 rounded-lg border-2 border-dashed text-center text-muted-foreground">
+                <Icon name="BrainCircuit" size={48} className="mx-auto mb-3 opacity-50" />
+                <p>Добавьте результаты для начала прогнозирования</p>
+              </div>
+            )}
+
+            <div className="flex gap-3 flex-wrap">
+              {outcomes.map(outcome => (
+                <Button
+                  key={outcome.id}
+                  onClick={() => addResult(outcome.id)}
+                  className="flex-1 h-16 text-lg text-white hover:opacity-90"
+                  style={{ backgroundColor: outcome.color }}
+                  disabled={isMonitoring}
+                >
+                  <span className="mr-2 font-mono">{outcome.symbol}</span>
+                  {outcome.label}
+                </Button>
+              ))}
+            </div>
+          </Card>
+
+          <Card className="p-6 space-y-4 animate-fade-in">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-semibold flex items-center gap-2">
+                <Icon name="BarChart3" size={20} className="text-primary" />
+                Статистика
+              </h2>
+              <Button variant="ghost" size="icon" onClick={onEditOutcomes} title="Настроить исходы">
+                <Icon name="SlidersHorizontal" size={18} />
+              </Button>
+            </div>
+
+            <div className="space-y-4">
+              {outcomes.map(outcome => {
+                const count = outcomeCounts[outcome.id] ?? 0;
+                const percent = totalCount > 0 ? (count / totalCount) * 100 : 0;
+
+                return (
+                  <div key={outcome.id}>
+                    <div className="flex justify-between text-sm mb-2">
+                      <span className="font-medium" style={{ color: outcome.color }}>{outcome.label}</span>
+                      <span className="font-mono">{count} ({percent.toFixed(1)}%)</span>
+                    </div>
+                    <Progress
+                      value={percent}
+                      className="h-2 bg-muted [&>div]:bg-[var(--outcome-color)]"
+                      style={{ '--outcome-color': outcome.color } as React.CSSProperties}
+                    />
+                  </div>
+                );
+              })}
+
+              <div className="pt-4 border-t border-border">
+                <div className="text-sm text-muted-foreground mb-2">Всего результатов</div>
+                <div className="text-3xl font-bold font-mono">{totalCount}</div>
+              </div>
+
+              <Button 
+                onClick={clearHistory} 
+                variant="outline" 
+                className="w-full"
+                disabled={history.length === 0}
+              >
+                <Icon name="RotateCcw" size={16} className="mr-2" />
+                Очистить историю
+              </Button>
+            </div>
+          </Card>
+        </div>
+
+        <Card className="p-6 space-y-4 animate-fade-in">
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <Icon name="Cpu" size={20} className="text-primary" />
+            Методы прогнозирования
+          </h2>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            {methods.map((method, index) => (
+              <div
+                key={index}
+                className="p-4 rounded-lg border border-border bg-card space-y-2 hover:border-primary/50 transition-colors"
+              >
+                <div className="flex items-center justify-between">
+                  <h3 className="font-medium text-sm">{method.name}</h3>
+                  {method.name === bestMethod && (
+                    <Badge variant="default" className="text-xs">Лучший</Badge>
+                  )}
+                </div>
+                <div className="space-y-1">
+                  <div className="flex justify-between text-xs text-muted-foreground">
+                    <span>Точность</span>
+                    <span className="font-mono font-medium">
+                      {method.accuracy.toFixed(1)}%
+                    </span>
+                  </div>
+                  <Progress value={method.accuracy} className="h-1.5" />
+                  <div className="text-xs text-muted-foreground">
+                    {method.correct}/{method.predictions} верных
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </Card>
+
+        <AccuracyChart methods={methods} outcomeCount={outcomes.length} />
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card className="p-6 space-y-4 animate-fade-in">
+            <h2 className="text-xl font-semibold flex items-center gap-2">
+              <Icon name="History" size={20} className="text-primary" />
+              История результатов
+            </h2>
+
+            {history.length > 0 ? (
+              <div className="flex flex-wrap gap-2">
+                {history.slice().reverse().map((entry) => {
+                  const outcome = getOutcome(outcomes, entry.result);
+                  return (
+                    <button
+                      key={entry.id}
+                      onClick={() => setOpenedEntry(entry)}
+                      className="relative px-4 py-2 rounded-lg font-medium text-sm border hover:opacity-80 transition-opacity"
+                      style={{
+                        backgroundColor: withAlpha(outcome.color, 0.2),
+                        borderColor: withAlpha(outcome.color, 0.5),
+                        color: outcome.color
+                      }}
+                      title={`${outcome.label} · ${entry.timestamp.toLocaleTimeString('ru-RU')}`}
+                    >
+                      {outcome.symbol}
+                      {entry.snapshot && (
+                        <Icon name="Camera" size={10} className="absolute top-0.5 right-0.5 opacity-70" />
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            ) : (
+              <div className="text-center py-8 text-muted-foreground">
+                <Icon name="FileX" size={48} className="mx-auto mb-3 opacity-30" />
+                <p>История пуста</p>
+              </div>
+            )}
+          </Card>
+
+          <ExportStats history={history} outcomes={outcomes} methods={methods} bestMethod={bestMethod} />
+        </div>
+      </div>
+
+      <CalibrationWizard
+        open={showCalibration}
+        onOpenChange={setShowCalibration}
+        outcomes={outcomes}
+        currentThresholds={thresholds}
+        onSample={sampleCalibrationFrame}
+        onApply={applyCalibration}
+      />
+
+      <SnapshotDialog entry={openedEntry} outcomes={outcomes} onLabel={labelEntry} onClose={() => setOpenedEntry(null)} />
+
+      {showSettings && !hidden && (isCapturing || isMonitoring) && (
+        <ScreenCaptureSettings
+          videoRef={videoRef}
+          setup={captureSetup}
+          onSetupApply={handleSetupApply}
+          onClose={() => setShowSettings(false)}
+          sensitivity={sensitivity}
+          onSensitivityChange={setSensitivity}
+          outcomes={outcomes}
+          colorProfiles={colorProfiles}
+          activeProfileId={activeProfileId}
+          onColorProfilesChange={onColorProfilesChange}
+          onActiveProfileChange={onActiveProfileChange}
+          onHistoryImport={importHistory}
+          learnedExamples={trainingExamples}
+          onLearnedExamplesClear={() => setLearnedExamples([])}
+        />
+      )}
+    </div>
+  );
+};
\ No newline at end of file
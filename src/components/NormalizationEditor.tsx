@@ -0,0 +1,80 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import Icon from '@/components/ui/icon';
+import { RGB, rgbToHex } from '@/lib/color';
+import { ColorCorrection, NORMALIZATION_MODE_LABELS, NormalizationMode } from '@/lib/normalization';
+
+interface NormalizationEditorProps {
+  mode: NormalizationMode;
+  hasPatch: boolean;
+  reference: RGB | undefined;
+  drawing: boolean;
+  correction: ColorCorrection | null;
+  onModeChange: (mode: NormalizationMode) => void;
+  onDrawStart: () => void;
+  onCaptureReference: () => void;
+}
+
+export const NormalizationEditor = ({
+  mode,
+  hasPatch,
+  reference,
+  drawing,
+  correction,
+  onModeChange,
+  onDrawStart,
+  onCaptureReference
+}: NormalizationEditorProps) => (
+  <div className="p-4 bg-muted rounded-lg space-y-3">
+    <ToggleGroup
+      type="single"
+      size="sm"
+      value={mode}
+      onValueChange={(value) => value && onModeChange(value as NormalizationMode)}
+      className="justify-start flex-wrap"
+    >
+      {(Object.keys(NORMALIZATION_MODE_LABELS) as NormalizationMode[]).map(value => (
+        <ToggleGroupItem key={value} value={value}>
+          {NORMALIZATION_MODE_LABELS[value]}
+        </ToggleGroupItem>
+      ))}
+    </ToggleGroup>
+
+    {mode === 'patch' && (
+      <div className="flex items-center gap-3 flex-wrap">
+        <Button size="sm" variant={drawing ? 'default' : 'outline'} onClick={onDrawStart}>
+          <Icon name="SquareDashed" size={14} className="mr-2" />
+          {drawing ? 'Выделите участок на кадре' : hasPatch ? 'Выделить заново' : 'Выделить эталонный участок'}
+        </Button>
+        <Button size="sm" variant="outline" onClick={onCaptureReference} disabled={!hasPatch}>
+          <Icon name="Pipette" size={14} className="mr-2" />
+          Запомнить эталон
+        </Button>
+        {reference && (
+          <div className="flex items-center gap-2">
+            <div className="w-5 h-5 rounded border border-border" style={{ backgroundColor: rgbToHex(reference) }} />
+            <Badge variant="outline" className="font-mono text-xs">{rgbToHex(reference)}</Badge>
+          </div>
+        )}
+      </div>
+    )}
+
+    {correction && (
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-muted-foreground">Коррекция текущего кадра:</span>
+        <Badge variant="secondary" className="font-mono">
+          R ×{correction.gains[0].toFixed(2)} G ×{correction.gains[1].toFixed(2)} B ×{correction.gains[2].toFixed(2)}
+        </Badge>
+      </div>
+    )}
+
+    <p className="text-sm text-muted-foreground">
+      {mode === 'patch'
+        ? 'Выделите участок, цвет которого не меняется между раундами (фон, рамку), и запомните его при обычной яркости: каждый кадр будет подтянут к этому цвету'
+        : mode === 'histogram'
+          ? 'Яркость и баланс белого выравниваются по самым светлым пикселям кадра — помогает при затемнении и ночном фильтре'
+          : 'Цвета сравниваются как есть; включите нормализацию, если страница бывает затемнена или в тёмной теме'}
+    </p>
+  </div>
+);
@@ -0,0 +1,98 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import Icon from '@/components/ui/icon';
+import { MIN_OUTCOMES, Outcome, Result } from '@/lib/outcomes';
+
+interface OutcomeEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  outcomes: Outcome[];
+  usedOutcomes: Result[];
+  onOutcomesChange: (outcomes: Outcome[]) => void;
+}
+
+const PALETTE = ['#0EA5E9', '#8B5CF6', '#F97316', '#10B981', '#EF4444', '#EAB308'];
+
+export const OutcomeEditor = ({
+  open,
+  onOpenChange,
+  outcomes,
+  usedOutcomes,
+  onOutcomesChange
+}: OutcomeEditorProps) => {
+  const updateOutcome = (id: Result, patch: Partial<Outcome>) => {
+    onOutcomesChange(outcomes.map(o => (o.id === id ? { ...o, ...patch } : o)));
+  };
+
+  const addOutcome = () => {
+    const label = `Исход ${outcomes.length + 1}`;
+    onOutcomesChange([
+      ...outcomes,
+      {
+        id: Date.now().toString(),
+        label,
+        symbol: label[0],
+        color: PALETTE[outcomes.length % PALETTE.length]
+      }
+    ]);
+  };
+
+  const removeOutcome = (id: Result) => {
+    onOutcomesChange(outcomes.filter(o => o.id !== id));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Исходы раунда</DialogTitle>
+          <DialogDescription>
+            Названия, символы и цвета исходов, которые отслеживает система
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {outcomes.map(outcome => {
+            const isUsed = usedOutcomes.includes(outcome.id);
+
+            return (
+              <div key={outcome.id} className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={outcome.color}
+                  onChange={(e) => updateOutcome(outcome.id, { color: e.target.value })}
+                  className="w-10 h-10 rounded cursor-pointer bg-transparent"
+                />
+                <Input
+                  value={outcome.symbol}
+                  onChange={(e) => updateOutcome(outcome.id, { symbol: e.target.value.slice(0, 2) })}
+                  className="w-14 text-center font-mono"
+                />
+                <Input
+                  value={outcome.label}
+                  onChange={(e) => updateOutcome(outcome.id, { label: e.target.value })}
+                  className="flex-1"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeOutcome(outcome.id)}
+                  disabled={outcomes.length <= MIN_OUTCOMES || isUsed}
+                  title={isUsed ? 'Исход уже есть в истории' : 'Удалить исход'}
+                >
+                  <Icon name="Trash2" size={16} />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+
+        <Button variant="outline" onClick={addOutcome} className="w-full">
+          <Icon name="Plus" size={16} className="mr-2" />
+          Добавить исход
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
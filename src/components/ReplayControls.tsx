@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import Icon from '@/components/ui/icon';
+import { Outcome, Result, getOutcome } from '@/lib/outcomes';
+import { PLAYBACK_RATES, compareSequences, parseExpectedSequence } from '@/lib/replay';
+
+interface ReplayControlsProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  fileName: string;
+  playbackRate: number;
+  onPlaybackRateChange: (rate: number) => void;
+  expectedText: string;
+  onExpectedTextChange: (text: string) => void;
+  detected: Result[];
+  outcomes: Outcome[];
+}
+
+const formatTime = (seconds: number) => {
+  if (!Number.isFinite(seconds)) return '--:--';
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+export const ReplayControls = ({
+  videoRef,
+  fileName,
+  playbackRate,
+  onPlaybackRateChange,
+  expectedText,
+  onExpectedTextChange,
+  detected,
+  outcomes
+}: ReplayControlsProps) => {
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [isPaused, setIsPaused] = useState(true);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const sync = () => {
+      setCurrentTime(video.currentTime);
+      setDuration(video.duration);
+      setIsPaused(video.paused);
+    };
+
+    sync();
+    const events = ['timeupdate', 'durationchange', 'play', 'pause', 'ended', 'loadedmetadata'];
+    events.forEach(event => video.addEventListener(event, sync));
+    return () => events.forEach(event => video.removeEventListener(event, sync));
+  }, [videoRef]);
+
+  const togglePlayback = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) video.play();
+    else video.pause();
+  };
+
+  const seek = (time: number) => {
+    if (videoRef.current) videoRef.current.currentTime = time;
+  };
+
+  const expected = parseExpectedSequence(expectedText, outcomes);
+  const comparison = compareSequences(expected, detected);
+
+  return (
+    <div className="p-3 bg-muted rounded-lg space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <Icon name="FileVideo" size={16} className="text-primary shrink-0" />
+          <span className="text-sm font-medium truncate">{fileName}</span>
+        </div>
+        <span className="text-xs font-mono text-muted-foreground shrink-0">
+          {formatTime(currentTime)} / {formatTime(duration)}
+        </span>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Button size="icon" variant="outline" onClick={togglePlayback}>
+          <Icon name={isPaused ? 'Play' : 'Pause'} size={16} />
+        </Button>
+        <Slider
+          value={[currentTime]}
+          onValueChange={(values) => seek(values[0])}
+          min={0}
+          max={Number.isFinite(duration) && duration > 0 ? duration : 1}
+          step={0.1}
+          className="flex-1"
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm text-muted-foreground">Скорость</span>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={playbackRate.toString()}
+          onValueChange={(value) => value && onPlaybackRateChange(Number(value))}
+        >
+          {PLAYBACK_RATES.map(rate => (
+            <ToggleGroupItem key={rate} value={rate.toString()}>{rate}×</ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div className="space-y-2 pt-2 border-t border-border">
+        <Label className="text-sm">Ожидаемая последовательность</Label>
+        <Textarea
+          value={expectedText}
+          onChange={(e) => onExpectedTextChange(e.target.value)}
+          placeholder={outcomes.map(o => o.symbol).join('') + ' или ' + outcomes.map(o => o.label).join(', ')}
+          className="font-mono text-sm min-h-[60px]"
+        />
+        {expected.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-1 font-mono text-sm">
+              {expected.map((id, index) => {
+                const actual = detected[index];
+                const status = actual === undefined ? 'pending' : actual === id ? 'match' : 'mismatch';
+                return (
+                  <span
+                    key={index}
+                    className={`px-1.5 rounded ${
+                      status === 'match' ? 'bg-green-500/20' : status === 'mismatch' ? 'bg-destructive/30' : 'opacity-50'
+                    }`}
+                    title={actual !== undefined ? `Распознано: ${getOutcome(outcomes, actual).label}` : 'Ещё не распознано'}
+                    style={{ color: getOutcome(outcomes, id).color }}
+                  >
+                    {getOutcome(outcomes, id).symbol}
+                  </span>
+                );
+              })}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline">Совпало {comparison.matched}/{comparison.compared}</Badge>
+              {comparison.missing > 0 && <Badge variant="outline">Не распознано {comparison.missing}</Badge>}
+              {comparison.extra > 0 && <Badge variant="destructive">Лишних {comparison.extra}</Badge>}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
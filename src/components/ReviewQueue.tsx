@@ -0,0 +1,76 @@
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import Icon from '@/components/ui/icon';
+import { Outcome, Result, getOutcome } from '@/lib/outcomes';
+import { ReviewItem } from '@/lib/review';
+
+interface ReviewQueueProps {
+  items: ReviewItem[];
+  outcomes: Outcome[];
+  onLabel: (item: ReviewItem, result: Result | null) => void;
+  onClear: () => void;
+}
+
+export const ReviewQueue = ({ items, outcomes, onLabel, onClear }: ReviewQueueProps) => {
+  return (
+    <Card className="p-6 space-y-4 animate-fade-in">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <Icon name="ListChecks" size={20} className="text-primary" />
+          Очередь проверки
+        </h2>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline">{items.length} кадров</Badge>
+          <Button variant="ghost" size="sm" onClick={onClear} disabled={items.length === 0}>
+            Очистить
+          </Button>
+        </div>
+      </div>
+
+      {items.length > 0 ? (
+        <div className="space-y-3 max-h-[480px] overflow-auto pr-1">
+          {items.slice().reverse().map(item => (
+            <div key={item.id} className="flex gap-4 p-3 rounded-lg border border-border">
+              <img src={item.image} alt="Кадр для проверки" className="h-20 rounded border border-border" />
+              <div className="flex-1 space-y-2">
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span className="font-mono">{item.timestamp.toLocaleTimeString('ru-RU')}</span>
+                  <span>Уверенность {(item.confidence * 100).toFixed(0)}%</span>
+                </div>
+                <div className="flex flex-wrap gap-2 text-xs font-mono">
+                  {Object.entries(item.scores).map(([id, score]) => (
+                    <span key={id} style={{ color: getOutcome(outcomes, id).color }}>
+                      {getOutcome(outcomes, id).symbol} {(score * 100).toFixed(1)}%
+                    </span>
+                  ))}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {outcomes.map(outcome => (
+                    <Button
+                      key={outcome.id}
+                      size="sm"
+                      className="text-white hover:opacity-90"
+                      style={{ backgroundColor: outcome.color }}
+                      onClick={() => onLabel(item, outcome.id)}
+                    >
+                      {outcome.symbol} {outcome.label}
+                    </Button>
+                  ))}
+                  <Button size="sm" variant="outline" onClick={() => onLabel(item, null)}>
+                    Нет раунда
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-8 text-muted-foreground">
+          <Icon name="CheckCheck" size={48} className="mx-auto mb-3 opacity-30" />
+          <p>Неоднозначных кадров нет</p>
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -5,39 +5,210 @@ import { Slider } from '@/components/ui/slider';
 import { Label } from '@/components/ui/label';
 import Icon from '@/components/ui/icon';
 import { Badge } from '@/components/ui/badge';
-
-interface CaptureArea {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-}
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { ColorProfileEditor } from '@/components/ColorProfileEditor';
+import { Switch } from '@/components/ui/switch';
+import { ColorProfile, ColorRange, getColorRange, highlightMatches, sampleColor } from '@/lib/colorProfiles';
+import { RGB, hexToRgb } from '@/lib/color';
+import { applyMasks } from '@/lib/pixels';
+import {
+  ColorCorrection,
+  DEFAULT_NORMALIZATION,
+  NORMALIZATION_SAMPLE_SIZE,
+  NormalizationMode,
+  applyCorrection,
+  estimateCorrection,
+  normalizationSource,
+  sameCorrection
+} from '@/lib/normalization';
+import { NormalizationEditor } from '@/components/NormalizationEditor';
+import { LearnedClassifierPanel } from '@/components/LearnedClassifierPanel';
+import { LEARNED_THRESHOLD, LabeledExample } from '@/lib/learnedClassifier';
+import { NEUTRAL_OUTCOME, Outcome, Result, getOutcome } from '@/lib/outcomes';
+import { TemplateManager } from '@/components/TemplateManager';
+import { HistoryStripReader } from '@/components/HistoryStripReader';
+import { ThresholdEditor } from '@/components/ThresholdEditor';
+import { VotingEditor } from '@/components/VotingEditor';
+import { DEFAULT_VOTING } from '@/lib/voting';
+import { DEFAULT_DUPLICATE_TOLERANCE, MAX_DUPLICATE_TOLERANCE } from '@/lib/perceptualHash';
+import {
+  CaptureArea,
+  DetectionRegion,
+  FrameSize,
+  MIN_REGION_SIZE,
+  normalizeArea,
+  normalizeMask,
+  projectArea,
+  projectMask,
+  readRegionPixels,
+  regionThumbnail
+} from '@/lib/regions';
+import { CaptureSetup, ClassifierMode, DEFAULT_MIN_MARGIN } from '@/lib/captureSetup';
+import { ReferenceTemplate, TEMPLATE_SIZE, extractFeatures, matchTemplates } from '@/lib/templates';
+import {
+  HANDLE_CURSORS,
+  Point,
+  RESIZE_HANDLES,
+  ResizeHandle,
+  areaFromPoints,
+  clampArea,
+  containsPoint,
+  handlePosition,
+  hitTestHandle,
+  moveArea,
+  resizeArea
+} from '@/lib/selection';
+import { STRIP_CELL_SAMPLE, StripDirection, classifyCell, stripCells } from '@/lib/historyStrip';
 
 interface ScreenCaptureSettingsProps {
   videoRef: React.RefObject<HTMLVideoElement>;
-  onAreaSelect: (area: CaptureArea) => void;
+  setup: CaptureSetup;
+  onSetupApply: (setup: CaptureSetup) => void;
   onClose: () => void;
   sensitivity: number;
   onSensitivityChange: (value: number) => void;
+  outcomes: Outcome[];
+  colorProfiles: ColorProfile[];
+  activeProfileId: string;
+  onColorProfilesChange: (profiles: ColorProfile[]) => void;
+  onActiveProfileChange: (id: string) => void;
+  onHistoryImport: (results: Result[]) => void;
+  learnedExamples: LabeledExample[];
+  onLearnedExamplesClear: () => void;
 }
 
+type Interaction =
+  | { type: 'create'; start: Point }
+  | { type: 'move'; id: string; start: Point; original: DetectionRegion }
+  | { type: 'resize'; id: string; handle: ResizeHandle; start: Point; original: DetectionRegion };
+
+const HANDLE_SIZE = 10;
+const LOUPE_SIZE = 160;
+const LOUPE_ZOOM = 4;
+
 export const ScreenCaptureSettings = ({
   videoRef,
-  onAreaSelect,
+  setup,
+  onSetupApply,
   onClose,
   sensitivity,
-  onSensitivityChange
+  onSensitivityChange,
+  outcomes,
+  colorProfiles,
+  activeProfileId,
+  onColorProfilesChange,
+  onActiveProfileChange,
+  onHistoryImport,
+  learnedExamples,
+  onLearnedExamplesClear
 }: ScreenCaptureSettingsProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [isDragging, setIsDragging] = useState(false);
-  const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
-  const [selection, setSelection] = useState<CaptureArea | null>(null);
+  const [interaction, setInteraction] = useState<Interaction | null>(null);
+  const [draft, setDraft] = useState<CaptureArea | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [pointer, setPointer] = useState<Point | null>(null);
+  const [cursor, setCursor] = useState('crosshair');
+  const currentFrameSize = (): FrameSize => ({
+    width: videoRef.current?.videoWidth || 1,
+    height: videoRef.current?.videoHeight || 1
+  });
+  const [regions, setRegions] = useState<DetectionRegion[]>(() => setup.regions.map(r => projectArea(r, currentFrameSize())));
+  const [classifier, setClassifier] = useState<ClassifierMode>(setup.classifier);
+  const [templates, setTemplates] = useState<ReferenceTemplate[]>(setup.templates);
+  const [templateThreshold, setTemplateThreshold] = useState(setup.templateThreshold);
+  const [classThresholds, setClassThresholds] = useState(setup.classThresholds);
+  const [minMargin, setMinMargin] = useState(setup.minMargin ?? DEFAULT_MIN_MARGIN);
+  const [voting, setVoting] = useState(setup.voting ?? DEFAULT_VOTING);
+  const [duplicateTolerance, setDuplicateTolerance] = useState(setup.duplicateTolerance ?? DEFAULT_DUPLICATE_TOLERANCE);
+  const [drawOutcome, setDrawOutcome] = useState<Result>(outcomes[0].id);
+  const [pickTarget, setPickTarget] = useState<Result | null>(null);
+  const [showDebug, setShowDebug] = useState(false);
+  const [strip, setStrip] = useState<CaptureArea | null>(null);
+  const [drawingStrip, setDrawingStrip] = useState(false);
+  const [drawingMask, setDrawingMask] = useState(false);
+  const [normalizationMode, setNormalizationMode] = useState<NormalizationMode>(
+    (setup.normalization ?? DEFAULT_NORMALIZATION).mode
+  );
+  const [patch, setPatch] = useState<CaptureArea | null>(() =>
+    setup.normalization?.patch ? projectArea(setup.normalization.patch, currentFrameSize()) : null
+  );
+  const [reference, setReference] = useState<RGB | undefined>(setup.normalization?.reference);
+  const [drawingPatch, setDrawingPatch] = useState(false);
+  const [boundsDraft, setBoundsDraft] = useState<Partial<Record<keyof CaptureArea, string>>>({});
+  const [previewCorrection, setPreviewCorrection] = useState<ColorCorrection | null>(null);
+  // Предпросмотр перерисовывается каждые 100 мс: холст для выборок один на все кадры,
+  // а коррекция попадает в состояние, только когда множители заметно изменились
+  const previewCorrectionRef = useRef<ColorCorrection | null>(null);
+  const sampleCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [stripCount, setStripCount] = useState(10);
+  const [stripDirection, setStripDirection] = useState<StripDirection>('ltr');
+  const [stripPreview, setStripPreview] = useState<(Result | null)[] | null>(null);
+
+  const activeProfile = colorProfiles.find(p => p.id === activeProfileId) ?? colorProfiles[0];
+
+  const updateRange = (outcome: Result, patch: Partial<ColorRange>) => {
+    const range = getColorRange(activeProfile, getOutcome(outcomes, outcome));
+    onColorProfilesChange(colorProfiles.map(p =>
+      p.id === activeProfile.id
+        ? { ...p, colors: { ...p.colors, [outcome]: { ...range, ...patch } } }
+        : p
+    ));
+  };
+
+  const toggleNeutralColor = (enabled: boolean) => {
+    onColorProfilesChange(colorProfiles.map(p => {
+      if (p.id !== activeProfile.id) return p;
+      const { [NEUTRAL_OUTCOME.id]: _removed, ...colors } = p.colors;
+      return { ...p, colors: enabled ? { ...colors, [NEUTRAL_OUTCOME.id]: getColorRange(p, NEUTRAL_OUTCOME) } : colors };
+    }));
+    if (!enabled && pickTarget === NEUTRAL_OUTCOME.id) setPickTarget(null);
+  };
+
+  const createProfile = () => {
+    const profile: ColorProfile = {
+      ...activeProfile,
+      id: Date.now().toString(),
+      name: `Профиль ${colorProfiles.length + 1}`
+    };
+    onColorProfilesChange([...colorProfiles, profile]);
+    onActiveProfileChange(profile.id);
+  };
+
+  const deleteProfile = (id: string) => {
+    const remaining = colorProfiles.filter(p => p.id !== id);
+    if (remaining.length === 0) return;
+    onColorProfilesChange(remaining);
+    if (id === activeProfileId) onActiveProfileChange(remaining[0].id);
+  };
+
+  const renameProfile = (id: string, name: string) => {
+    onColorProfilesChange(colorProfiles.map(p => (p.id === id ? { ...p, name } : p)));
+  };
+
+  const pickColor = (x: number, y: number, outcome: Result) => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const radius = 2;
+    const size = radius * 2 + 1;
+    const sampleCanvas = document.createElement('canvas');
+    sampleCanvas.width = size;
+    sampleCanvas.height = size;
+    const ctx = sampleCanvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.drawImage(video, x - radius, y - radius, size, size, 0, 0, size, size);
+    updateRange(outcome, { color: sampleColor(ctx.getImageData(0, 0, size, size)) });
+    setPickTarget(null);
+  };
 
   useEffect(() => {
     drawVideo();
     const interval = setInterval(drawVideo, 100);
     return () => clearInterval(interval);
-  }, [selection]);
+  }, [regions, draft, selectedId, pointer, interaction, showDebug, classifier, templates, templateThreshold, sensitivity, activeProfile, strip, drawingStrip, drawingMask, stripCount, stripDirection, stripPreview, classThresholds, normalizationMode, patch, reference, drawingPatch]);
 
   const drawVideo = () => {
     if (!canvasRef.current || !videoRef.current) return;
@@ -52,82 +223,462 @@ export const ScreenCaptureSettings = ({
 
     ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
 
-    if (selection) {
-      ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    const areas: (CaptureArea & { outcome: Result; label: string; masks?: CaptureArea[] })[] = [
+      ...regions,
+      ...(draft && !drawingStrip && !drawingMask && !drawingPatch ? [{ ...draft, outcome: drawOutcome, label: getOutcome(outcomes, drawOutcome).label }] : [])
+    ];
+    const stripArea = drawingStrip ? draft : strip;
+    const patchArea = drawingPatch ? draft : normalizationMode === 'patch' ? patch : null;
+    const correction = classifier === 'color' ? frameCorrection(video) : null;
+    if (!sameCorrection(previewCorrectionRef.current, correction)) {
+      previewCorrectionRef.current = correction;
+      setPreviewCorrection(correction);
+    }
+    if (areas.length === 0 && !stripArea && !patchArea) return;
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
 
-      ctx.clearRect(selection.x, selection.y, selection.width, selection.height);
+    ctx.font = 'bold 16px IBM Plex Sans';
+    areas.forEach(area => {
+      const color = getOutcome(outcomes, area.outcome).color;
+
+      ctx.clearRect(area.x, area.y, area.width, area.height);
       ctx.drawImage(
         video,
-        selection.x, selection.y, selection.width, selection.height,
-        selection.x, selection.y, selection.width, selection.height
+        area.x, area.y, area.width, area.height,
+        area.x, area.y, area.width, area.height
       );
 
-      ctx.strokeStyle = '#8B5CF6';
+      ctx.strokeStyle = color;
       ctx.lineWidth = 3;
-      ctx.strokeRect(selection.x, selection.y, selection.width, selection.height);
+      ctx.strokeRect(area.x, area.y, area.width, area.height);
+
+      ctx.fillStyle = color;
+      ctx.fillText(area.label, area.x + 10, area.y + 24);
+
+      // у обучаемого классификатора оценка общая для всех областей, поэтому по областям её не показать
+      if (showDebug && classifier !== 'learned') {
+        drawDebugInfo(ctx, video, area, correction);
+      }
+
+      area.masks?.forEach(mask => drawMask(ctx, projectMask(area, mask)));
+    });
+
+    if (drawingMask && draft) {
+      drawMask(ctx, draft);
+    }
+
+    if (stripArea) {
+      drawStrip(ctx, video, stripArea);
+    }
+
+    if (patchArea) {
+      drawPatch(ctx, video, patchArea);
+    }
 
-      const midX = selection.x + selection.width / 2;
-      ctx.strokeStyle = '#0EA5E9';
+    const selected = regions.find(r => r.id === selectedId);
+    if (selected) {
+      const size = HANDLE_SIZE * displayScale();
+      ctx.fillStyle = '#FFFFFF';
+      ctx.strokeStyle = getOutcome(outcomes, selected.outcome).color;
       ctx.lineWidth = 2;
-      ctx.beginPath();
-      ctx.moveTo(midX, selection.y);
-      ctx.lineTo(midX, selection.y + selection.height);
-      ctx.stroke();
+      RESIZE_HANDLES.forEach(handle => {
+        const p = handlePosition(selected, handle);
+        ctx.fillRect(p.x - size / 2, p.y - size / 2, size, size);
+        ctx.strokeRect(p.x - size / 2, p.y - size / 2, size, size);
+      });
+    }
+
+    if (interaction && pointer) {
+      drawLoupe(ctx, video, pointer);
+    }
+  };
+
+  const drawStrip = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement, area: CaptureArea) => {
+    ctx.clearRect(area.x, area.y, area.width, area.height);
+    ctx.drawImage(video, area.x, area.y, area.width, area.height, area.x, area.y, area.width, area.height);
 
-      ctx.fillStyle = '#0EA5E9';
-      ctx.font = 'bold 16px IBM Plex Sans';
-      ctx.fillText('АЛЬФА', selection.x + 10, selection.y + 30);
+    ctx.save();
+    ctx.strokeStyle = '#FFFFFF';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([8, 4]);
+    ctx.strokeRect(area.x, area.y, area.width, area.height);
+    ctx.setLineDash([]);
+    ctx.lineWidth = 1;
+    stripCells(area, stripCount, stripDirection).forEach((cell, index) => {
+      const result = stripPreview?.[index];
+      ctx.strokeStyle = result ? getOutcome(outcomes, result).color : 'rgba(255, 255, 255, 0.6)';
+      ctx.strokeRect(cell.x, cell.y, cell.width, cell.height);
+    });
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillText('Лента истории', area.x, area.y - 6);
+    ctx.restore();
+  };
+
+  const drawPatch = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement, area: CaptureArea) => {
+    ctx.clearRect(area.x, area.y, area.width, area.height);
+    ctx.drawImage(video, area.x, area.y, area.width, area.height, area.x, area.y, area.width, area.height);
+
+    ctx.save();
+    ctx.strokeStyle = '#FACC15';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([4, 4]);
+    ctx.strokeRect(area.x, area.y, area.width, area.height);
+    ctx.fillStyle = '#FACC15';
+    ctx.fillText('Эталон цвета', area.x, area.y - 6);
+    ctx.restore();
+  };
+
+  const getSampleCanvas = () => {
+    if (!sampleCanvasRef.current) sampleCanvasRef.current = document.createElement('canvas');
+    return sampleCanvasRef.current;
+  };
+
+  const frameCorrection = (video: HTMLVideoElement): ColorCorrection | null => {
+    const config = { mode: normalizationMode, patch: patch ? normalizeArea(patch, currentFrameSize()) : undefined, reference };
+    const source = normalizationSource(config, currentFrameSize());
+    const pixels = source && readRegionPixels(video, getSampleCanvas(), source, NORMALIZATION_SAMPLE_SIZE);
+    return pixels ? estimateCorrection(pixels, config) : null;
+  };
+
+  const captureReference = (area: CaptureArea | null = patch) => {
+    const video = videoRef.current;
+    if (!video || !area) return;
+    const pixels = readRegionPixels(video, getSampleCanvas(), area, NORMALIZATION_SAMPLE_SIZE);
+    if (pixels) setReference(sampleColor(pixels));
+  };
 
-      ctx.fillStyle = '#8B5CF6';
-      ctx.fillText('ОМЕГА', midX + 10, selection.y + 30);
+  const drawMask = (ctx: CanvasRenderingContext2D, area: CaptureArea) => {
+    const step = 8 * displayScale();
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(area.x, area.y, area.width, area.height);
+    ctx.clip();
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.45)';
+    ctx.fillRect(area.x, area.y, area.width, area.height);
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.7)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let offset = -area.height; offset < area.width; offset += step) {
+      ctx.moveTo(area.x + offset, area.y + area.height);
+      ctx.lineTo(area.x + offset + area.height, area.y);
     }
+    ctx.stroke();
+    ctx.restore();
+    ctx.strokeStyle = '#FFFFFF';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(area.x, area.y, area.width, area.height);
   };
 
-  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+  const displayScale = () => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
-
+    if (!canvas) return 1;
     const rect = canvas.getBoundingClientRect();
-    const scaleX = canvas.width / rect.width;
-    const scaleY = canvas.height / rect.height;
-    
-    const x = (e.clientX - rect.left) * scaleX;
-    const y = (e.clientY - rect.top) * scaleY;
+    return rect.width > 0 ? canvas.width / rect.width : 1;
+  };
+
+  const drawLoupe = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement, point: Point) => {
+    const size = LOUPE_SIZE * displayScale();
+    const radius = LOUPE_SIZE / LOUPE_ZOOM / 2;
+    const margin = 12 * displayScale();
+    const onLeft = point.x > ctx.canvas.width / 2 || point.y > ctx.canvas.height / 2;
+    const x = onLeft ? margin : ctx.canvas.width - size - margin;
+    const y = margin;
 
-    setIsDragging(true);
-    setDragStart({ x, y });
-    setSelection(null);
+    ctx.save();
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(video, point.x - radius, point.y - radius, radius * 2, radius * 2, x, y, size, size);
+    ctx.strokeStyle = '#FFFFFF';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(x, y, size, size);
+    ctx.strokeStyle = '#EF4444';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(x + size / 2, y);
+    ctx.lineTo(x + size / 2, y + size);
+    ctx.moveTo(x, y + size / 2);
+    ctx.lineTo(x + size, y + size / 2);
+    ctx.stroke();
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.75)';
+    ctx.fillRect(x, y + size, size, 20 * displayScale());
+    ctx.fillStyle = '#FFFFFF';
+    ctx.font = `${12 * displayScale()}px IBM Plex Mono, monospace`;
+    ctx.fillText(`${Math.round(point.x)}, ${Math.round(point.y)}`, x + 6, y + size + 14 * displayScale());
+    ctx.restore();
   };
 
-  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!isDragging) return;
+  const drawDebugInfo = (
+    ctx: CanvasRenderingContext2D,
+    video: HTMLVideoElement,
+    area: CaptureArea & { outcome: Result; id?: string; masks?: CaptureArea[] },
+    correction: ColorCorrection | null
+  ) => {
+    let score: number;
+    let threshold: number;
+    const classThreshold = classThresholds?.[area.outcome];
+    const masks = area.masks ?? [];
 
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+    if (classifier === 'template') {
+      const pixels = readRegionPixels(video, getSampleCanvas(), area, {
+        width: TEMPLATE_SIZE,
+        height: TEMPLATE_SIZE
+      });
+      const match = pixels && matchTemplates(extractFeatures(applyMasks(pixels, masks)), templates.filter(t => t.regionId === area.id));
+      score = match ? match.score : 0;
+      threshold = classThreshold ?? templateThreshold / 100;
+    } else {
+      const x = Math.round(area.x);
+      const y = Math.round(area.y);
+      const width = Math.max(1, Math.round(area.width));
+      const height = Math.max(1, Math.round(area.height));
+      const outcome = getOutcome(outcomes, area.outcome);
+      const pixels = ctx.getImageData(x, y, width, height);
+      const range = getColorRange(activeProfile, outcome);
+      const masked = applyMasks(pixels, masks);
+      const shown = correction ? applyCorrection(masked, correction) : masked;
+      score = highlightMatches(shown, range, hexToRgb(outcome.color));
+      pixels.data.set(shown.data);
+      ctx.putImageData(pixels, x, y);
+      threshold = classThreshold ?? sensitivity / 100;
+    }
 
+    const text = `${(score * 100).toFixed(1)}% / порог ${(threshold * 100).toFixed(0)}%`;
+    ctx.font = 'bold 14px IBM Plex Mono, monospace';
+    const textWidth = ctx.measureText(text).width;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.75)';
+    ctx.fillRect(area.x + 6, area.y + area.height - 28, textWidth + 10, 22);
+    ctx.fillStyle = score > threshold ? '#22C55E' : '#EF4444';
+    ctx.fillText(text, area.x + 11, area.y + area.height - 12);
+    ctx.font = 'bold 16px IBM Plex Sans';
+  };
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const canvas = e.currentTarget;
     const rect = canvas.getBoundingClientRect();
-    const scaleX = canvas.width / rect.width;
-    const scaleY = canvas.height / rect.height;
-    
-    const currentX = (e.clientX - rect.left) * scaleX;
-    const currentY = (e.clientY - rect.top) * scaleY;
+    return {
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height)
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = toCanvasPoint(e);
+
+    if (pickTarget) {
+      pickColor(point.x, point.y, pickTarget);
+      return;
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    e.currentTarget.focus();
+    setPointer(point);
+
+    if (drawingStrip || drawingMask || drawingPatch) {
+      setDraft(null);
+      setInteraction({ type: 'create', start: point });
+      return;
+    }
+
+    const tolerance = HANDLE_SIZE * displayScale();
+    const selected = regions.find(r => r.id === selectedId);
+    const handle = selected && hitTestHandle(selected, point, tolerance);
+    if (selected && handle) {
+      setInteraction({ type: 'resize', id: selected.id, handle, start: point, original: selected });
+      return;
+    }
+
+    const hit = [...regions].reverse().find(r => containsPoint(r, point));
+    if (hit) {
+      setSelectedId(hit.id);
+      setInteraction({ type: 'move', id: hit.id, start: point, original: hit });
+      return;
+    }
+
+    setSelectedId(null);
+    setDraft(null);
+    setInteraction({ type: 'create', start: point });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = toCanvasPoint(e);
+
+    if (!interaction) {
+      const selected = regions.find(r => r.id === selectedId);
+      const handle = selected && hitTestHandle(selected, point, HANDLE_SIZE * displayScale());
+      if (pickTarget) setCursor('cell');
+      else if (drawingStrip || drawingMask || drawingPatch) setCursor('crosshair');
+      else if (handle) setCursor(HANDLE_CURSORS[handle]);
+      else if (regions.some(r => containsPoint(r, point))) setCursor('move');
+      else setCursor('crosshair');
+      return;
+    }
 
-    const x = Math.min(dragStart.x, currentX);
-    const y = Math.min(dragStart.y, currentY);
-    const width = Math.abs(currentX - dragStart.x);
-    const height = Math.abs(currentY - dragStart.y);
+    setPointer(point);
+    const dx = point.x - interaction.start.x;
+    const dy = point.y - interaction.start.y;
 
-    setSelection({ x, y, width, height });
+    if (interaction.type === 'create') {
+      setDraft(areaFromPoints(interaction.start, point));
+    } else if (interaction.type === 'move') {
+      updateRegion(interaction.id, moveArea(interaction.original, dx, dy, currentFrameSize()));
+    } else {
+      updateRegion(interaction.id, resizeArea(interaction.original, interaction.handle, dx, dy, currentFrameSize()));
+    }
   };
 
-  const handleMouseUp = () => {
-    setIsDragging(false);
+  const handlePointerUp = () => {
+    if (!interaction) return;
+
+    if (drawingStrip) {
+      if (draft && draft.width >= MIN_REGION_SIZE && draft.height >= MIN_REGION_SIZE) {
+        setStrip(draft);
+        setStripDirection(draft.width >= draft.height ? 'ltr' : 'ttb');
+        setStripPreview(null);
+        setDrawingStrip(false);
+      }
+    } else if (drawingPatch) {
+      if (draft && draft.width >= MIN_REGION_SIZE && draft.height >= MIN_REGION_SIZE) {
+        setPatch(draft);
+        captureReference(draft);
+        setDrawingPatch(false);
+      }
+    } else if (drawingMask) {
+      const selected = regions.find(r => r.id === selectedId);
+      const mask = selected && draft && normalizeMask(selected, draft);
+      if (selected && mask) {
+        updateRegion(selected.id, { masks: [...(selected.masks ?? []), mask] });
+      }
+    } else if (interaction.type === 'create' && draft && draft.width >= MIN_REGION_SIZE && draft.height >= MIN_REGION_SIZE) {
+      const count = regions.filter(r => r.outcome === drawOutcome).length + 1;
+      const region: DetectionRegion = {
+        ...draft,
+        id: Date.now().toString(),
+        label: `${getOutcome(outcomes, drawOutcome).label} ${count}`,
+        outcome: drawOutcome
+      };
+      setRegions([...regions, region]);
+      setSelectedId(region.id);
+    }
+
+    setInteraction(null);
+    setDraft(null);
+    setPointer(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    const selected = regions.find(r => r.id === selectedId);
+    if (!selected) return;
+
+    if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      removeRegion(selected.id);
+      return;
+    }
+
+    const step = e.shiftKey ? 10 : 1;
+    const offsets: Record<string, Point> = {
+      ArrowLeft: { x: -step, y: 0 },
+      ArrowRight: { x: step, y: 0 },
+      ArrowUp: { x: 0, y: -step },
+      ArrowDown: { x: 0, y: step }
+    };
+    const offset = offsets[e.key];
+    if (!offset) return;
+
+    e.preventDefault();
+    const frame = currentFrameSize();
+    updateRegion(
+      selected.id,
+      e.altKey
+        ? resizeArea(selected, 'se', offset.x, offset.y, frame)
+        : moveArea(selected, offset.x, offset.y, frame)
+    );
+  };
+
+  // Пока поле редактируется, введённое хранится строкой: иначе «150» по пути превращалось бы в минимальный размер
+  const commitRegionBounds = (region: DetectionRegion, key: keyof CaptureArea) => {
+    const value = boundsDraft[key];
+    if (value === undefined) return;
+    setBoundsDraft(({ [key]: _, ...rest }) => rest);
+    const parsed = Number(value);
+    if (value.trim() === '' || !Number.isFinite(parsed)) return;
+    updateRegion(region.id, clampArea({ ...region, [key]: parsed }, currentFrameSize()));
+  };
+
+  const updateRegion = (id: string, patch: Partial<DetectionRegion>) => {
+    setRegions(regions.map(r => (r.id === id ? { ...r, ...patch } : r)));
+  };
+
+  const removeRegion = (id: string) => {
+    setRegions(regions.filter(r => r.id !== id));
+    if (selectedId === id) {
+      setSelectedId(null);
+      setDrawingMask(false);
+    }
+    setTemplates(templates.filter(t => t.regionId !== id));
+  };
+
+  const captureTemplate = (region: DetectionRegion, outcome: Result) => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const pixels = readRegionPixels(video, document.createElement('canvas'), region, {
+      width: TEMPLATE_SIZE,
+      height: TEMPLATE_SIZE
+    });
+    if (!pixels) return;
+
+    setTemplates([
+      ...templates,
+      {
+        ...extractFeatures(applyMasks(pixels, region.masks ?? [])),
+        id: Date.now().toString(),
+        outcome,
+        regionId: region.id,
+        thumbnail: regionThumbnail(video, region),
+        createdAt: Date.now()
+      }
+    ]);
+  };
+
+  const readStrip = () => {
+    const video = videoRef.current;
+    if (!video || !strip) return;
+
+    const canvas = document.createElement('canvas');
+    setStripPreview(stripCells(strip, stripCount, stripDirection).map(cell => {
+      const pixels = readRegionPixels(video, canvas, cell, {
+        width: Math.min(STRIP_CELL_SAMPLE, cell.width),
+        height: Math.min(STRIP_CELL_SAMPLE, cell.height)
+      });
+      return pixels && classifyCell(pixels, activeProfile, outcomes, sensitivity / 100);
+    }));
+  };
+
+  const importStrip = (results: Result[]) => {
+    onHistoryImport(results);
+    setStripPreview(null);
   };
 
   const confirmSelection = () => {
-    if (selection && selection.width > 50 && selection.height > 50) {
-      onAreaSelect(selection);
+    if (regions.length > 0) {
+      const frame = currentFrameSize();
+      onSetupApply({
+        regions: regions.map(r => normalizeArea(r, frame)),
+        classifier,
+        templates,
+        templateThreshold,
+        classThresholds,
+        minMargin,
+        voting,
+        duplicateTolerance,
+        normalization: {
+          mode: normalizationMode,
+          patch: patch ? normalizeArea(patch, frame) : undefined,
+          reference
+        }
+      });
       onClose();
     }
   };
@@ -147,90 +698,366 @@ export const ScreenCaptureSettings = ({
           </div>
 
           <div className="space-y-4">
-            <div>
+            {classifier === 'color' && (
+              <div>
+                <Label className="text-base mb-3 block">
+                  Чувствительность распознавания: {sensitivity}%
+                </Label>
+                <div className="flex items-center gap-4">
+                  <Icon name="Volume" size={18} className="text-muted-foreground" />
+                  <Slider
+                    value={[sensitivity]}
+                    onValueChange={(values) => onSensitivityChange(values[0])}
+                    min={10}
+                    max={50}
+                    step={5}
+                    className="flex-1"
+                  />
+                  <Icon name="Volume2" size={18} className="text-primary" />
+                </div>
+                <p className="text-sm text-muted-foreground mt-2">
+                  Чем выше значение, тем меньше ложных срабатываний
+                </p>
+                {classThresholds && (
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Заданы отдельные пороги по исходам; ползунок применяется к исходам без своего порога
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="border-t pt-4 flex items-center justify-between gap-4 flex-wrap">
+              <Label className="text-base block">
+                Классификатор
+              </Label>
+              <ToggleGroup
+                type="single"
+                value={classifier}
+                onValueChange={(value) => {
+                  if (!value) return;
+                  setClassifier(value as ClassifierMode);
+                  // пороги по исходам относятся к шкале конкретного классификатора
+                  setClassThresholds(undefined);
+                }}
+              >
+                <ToggleGroupItem value="color">
+                  <Icon name="Palette" size={14} className="mr-2" />
+                  По цвету
+                </ToggleGroupItem>
+                <ToggleGroupItem value="template">
+                  <Icon name="Images" size={14} className="mr-2" />
+                  По эталонам
+                </ToggleGroupItem>
+                <ToggleGroupItem value="learned">
+                  <Icon name="BrainCircuit" size={14} className="mr-2" />
+                  Обучаемый
+                </ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+
+            <div className="border-t pt-4">
               <Label className="text-base mb-3 block">
-                Чувствительность распознавания: {sensitivity}%
+                Пороги распознавания
               </Label>
-              <div className="flex items-center gap-4">
-                <Icon name="Volume" size={18} className="text-muted-foreground" />
-                <Slider
-                  value={[sensitivity]}
-                  onValueChange={(values) => onSensitivityChange(values[0])}
-                  min={10}
-                  max={50}
-                  step={5}
-                  className="flex-1"
-                />
-                <Icon name="Volume2" size={18} className="text-primary" />
-              </div>
-              <p className="text-sm text-muted-foreground mt-2">
-                Чем выше значение, тем меньше ложных срабатываний
-              </p>
+              <ThresholdEditor
+                outcomes={[...outcomes, NEUTRAL_OUTCOME]}
+                baseThreshold={
+                  classifier === 'template' ? templateThreshold / 100 : classifier === 'learned' ? LEARNED_THRESHOLD : sensitivity / 100
+                }
+                thresholds={classThresholds}
+                minMargin={minMargin}
+                onThresholdsChange={setClassThresholds}
+                onMinMarginChange={setMinMargin}
+              />
             </div>
 
             <div className="border-t pt-4">
               <Label className="text-base mb-3 block">
-                Выделите область с колонками Альфа и Омега
+                Голосование по кадрам
               </Label>
+              <VotingEditor voting={voting} onChange={setVoting} />
+            </div>
+
+            <div className="border-t pt-4">
+              <Label className="text-base mb-3 block">
+                Защита от повторов: {Math.round(duplicateTolerance * 100)}%
+              </Label>
+              <Slider
+                value={[Math.round(duplicateTolerance * 100)]}
+                onValueChange={(values) => setDuplicateTolerance(values[0] / 100)}
+                min={0}
+                max={MAX_DUPLICATE_TOLERANCE * 100}
+                step={1}
+              />
+              <p className="text-sm text-muted-foreground mt-2">
+                Новая запись не создаётся, пока перцептивный хеш областей отличается от кадра предыдущей записи
+                не больше чем на эту долю бит
+              </p>
+            </div>
+
+            {classifier === 'learned' && (
+              <div>
+                <Label className="text-base mb-3 block">
+                  Размеченные примеры
+                </Label>
+                <LearnedClassifierPanel examples={learnedExamples} outcomes={outcomes} onClear={onLearnedExamplesClear} />
+              </div>
+            )}
+
+            {classifier === 'template' && (
+              <div>
+                <Label className="text-base mb-3 block">
+                  Эталонные снимки
+                </Label>
+                <TemplateManager
+                  regions={regions}
+                  outcomes={[...outcomes, NEUTRAL_OUTCOME]}
+                  templates={templates}
+                  threshold={templateThreshold}
+                  onCapture={captureTemplate}
+                  onDelete={(id) => setTemplates(templates.filter(t => t.id !== id))}
+                  onThresholdChange={setTemplateThreshold}
+                />
+              </div>
+            )}
+
+            {classifier === 'color' && (
+              <div>
+                <Label className="text-base mb-3 block">
+                  Нормализация яркости и баланса белого
+                </Label>
+                <NormalizationEditor
+                  mode={normalizationMode}
+                  hasPatch={patch !== null}
+                  reference={reference}
+                  drawing={drawingPatch}
+                  correction={previewCorrection}
+                  onModeChange={setNormalizationMode}
+                  onDrawStart={() => setDrawingPatch(!drawingPatch)}
+                  onCaptureReference={() => captureReference()}
+                />
+              </div>
+            )}
+
+            {classifier === 'color' && (
+              <div>
+                <Label className="text-base mb-3 block">
+                  Цветовой профиль
+                </Label>
+                <ColorProfileEditor
+                  profiles={colorProfiles}
+                  outcomes={outcomes}
+                  activeProfileId={activeProfile.id}
+                  pickTarget={pickTarget}
+                  onSelect={onActiveProfileChange}
+                  onCreate={createProfile}
+                  onDelete={deleteProfile}
+                  onRename={renameProfile}
+                  onRangeChange={updateRange}
+                  onPickStart={setPickTarget}
+                  onNeutralToggle={toggleNeutralColor}
+                />
+              </div>
+            )}
+
+            <div className="border-t pt-4">
+              <div className="flex items-center justify-between mb-3 gap-4 flex-wrap">
+                <Label className="text-base block">
+                  Выделите области индикаторов
+                </Label>
+                <div className="flex items-center gap-2">
+                  <Switch id="debug-overlay" checked={showDebug} onCheckedChange={setShowDebug} />
+                  <Label htmlFor="debug-overlay" className="text-sm text-muted-foreground cursor-pointer">
+                    Отладочный слой
+                  </Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground">Новая область:</span>
+                  <ToggleGroup
+                    type="single"
+                    size="sm"
+                    value={drawOutcome}
+                    onValueChange={(value) => value && setDrawOutcome(value)}
+                  >
+                    {outcomes.map(outcome => (
+                      <ToggleGroupItem key={outcome.id} value={outcome.id}>
+                        {outcome.label}
+                      </ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                </div>
+              </div>
               <div className="relative bg-black rounded-lg overflow-hidden">
                 <canvas
                   ref={canvasRef}
-                  className="w-full cursor-crosshair"
-                  onMouseDown={handleMouseDown}
-                  onMouseMove={handleMouseMove}
-                  onMouseUp={handleMouseUp}
-                  onMouseLeave={handleMouseUp}
+                  tabIndex={0}
+                  className="w-full touch-none outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                  style={{ cursor: pickTarget ? 'cell' : cursor }}
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  onPointerCancel={handlePointerUp}
+                  onKeyDown={handleKeyDown}
                 />
-                {!selection && (
+                {regions.length === 0 && !draft && !pickTarget && (
                   <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
                     <div className="bg-background/90 px-6 py-4 rounded-lg text-center space-y-2">
                       <Icon name="MousePointer2" size={32} className="mx-auto text-primary" />
-                      <p className="font-medium">Нажмите и перетащите для выделения области</p>
+                      <p className="font-medium">Нажмите и перетащите, чтобы добавить область</p>
                     </div>
                   </div>
                 )}
               </div>
             </div>
 
-            {selection && (
-              <div className="flex items-center justify-between p-4 bg-muted rounded-lg">
-                <div className="flex items-center gap-4">
-                  <Badge variant="outline" className="text-sm">
-                    {Math.round(selection.width)}×{Math.round(selection.height)}px
-                  </Badge>
+            <div className="border-t pt-4">
+              <Label className="text-base mb-3 block">
+                Лента истории
+              </Label>
+              <HistoryStripReader
+                strip={strip}
+                drawing={drawingStrip}
+                count={stripCount}
+                direction={stripDirection}
+                preview={stripPreview}
+                outcomes={outcomes}
+                onDrawStart={() => setDrawingStrip(!drawingStrip)}
+                onCountChange={(count) => {
+                  setStripCount(count);
+                  setStripPreview(null);
+                }}
+                onDirectionChange={(direction) => {
+                  setStripDirection(direction);
+                  setStripPreview(null);
+                }}
+                onRead={readStrip}
+                onPreviewChange={setStripPreview}
+                onImport={importStrip}
+              />
+            </div>
+
+            {regions.length > 0 && (
+              <div className="p-4 bg-muted rounded-lg space-y-3">
+                {regions.map(region => (
+                  <div
+                    key={region.id}
+                    className={`space-y-2 p-2 rounded-md border ${
+                      region.id === selectedId ? 'border-primary bg-background' : 'border-transparent'
+                    }`}
+                    onClick={() => setSelectedId(region.id)}
+                  >
+                    <div className="flex items-center gap-3">
+                      <div
+                        className="w-4 h-4 rounded shrink-0"
+                        style={{ backgroundColor: getOutcome(outcomes, region.outcome).color }}
+                      />
+                      <Input
+                        value={region.label}
+                        onChange={(e) => updateRegion(region.id, { label: e.target.value })}
+                        className="flex-1"
+                      />
+                      <Select
+                        value={region.outcome}
+                        onValueChange={(value) => updateRegion(region.id, { outcome: value })}
+                      >
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {outcomes.map(outcome => (
+                            <SelectItem key={outcome.id} value={outcome.id}>{outcome.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Badge variant="outline" className="text-sm">
+                        {Math.round(region.width)}×{Math.round(region.height)}px
+                      </Badge>
+                      {region.id === selectedId ? (
+                        <Button
+                          variant={drawingMask ? 'default' : 'outline'}
+                          size="sm"
+                          onClick={() => setDrawingMask(!drawingMask)}
+                          title="Нарисуйте прямоугольник внутри области, чтобы классификатор пропускал его пиксели"
+                        >
+                          <Icon name="EyeOff" size={14} className="mr-1" />
+                          {drawingMask ? 'Рисуйте маску' : 'Маска'}
+                        </Button>
+                      ) : region.masks?.length ? (
+                        <Badge variant="secondary">масок: {region.masks.length}</Badge>
+                      ) : null}
+                      <Button variant="ghost" size="icon" onClick={() => removeRegion(region.id)}>
+                        <Icon name="Trash2" size={16} />
+                      </Button>
+                    </div>
+                    {region.id === selectedId && (region.masks?.length ?? 0) > 0 && (
+                      <div className="flex items-center gap-2 pl-7 flex-wrap">
+                        <span className="text-xs text-muted-foreground">Маски:</span>
+                        {region.masks?.map((mask, index) => (
+                          <Badge key={index} variant="secondary" className="gap-1 font-mono">
+                            {Math.round(mask.width * region.width)}×{Math.round(mask.height * region.height)}
+                            <button
+                              onClick={() => updateRegion(region.id, { masks: region.masks?.filter((_, i) => i !== index) })}
+                              title="Удалить маску"
+                            >
+                              <Icon name="X" size={12} />
+                            </button>
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                    {region.id === selectedId && (
+                      <div className="grid grid-cols-4 gap-2 pl-7">
+                        {(['x', 'y', 'width', 'height'] as const).map(key => (
+                          <div key={key} className="flex items-center gap-1">
+                            <Label className="text-xs text-muted-foreground w-4">
+                              {key === 'width' ? 'Ш' : key === 'height' ? 'В' : key.toUpperCase()}
+                            </Label>
+                            <Input
+                              type="number"
+                              value={boundsDraft[key] ?? Math.round(region[key])}
+                              onChange={(e) => setBoundsDraft(draft => ({ ...draft, [key]: e.target.value }))}
+                              onBlur={() => commitRegionBounds(region, key)}
+                              onKeyDown={(e) => e.key === 'Enter' && commitRegionBounds(region, key)}
+                              className="h-8 font-mono text-sm"
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                  Перетаскивайте область или её маркеры; стрелки сдвигают выбранную область (Shift — на 10 px, Alt — меняет размер), Delete удаляет; «Маска» исключает логотипы и таймеры внутри выбранной области из распознавания
+                </p>
+                <div className="flex items-center justify-between pt-3 border-t border-border">
                   <p className="text-sm text-muted-foreground">
-                    Область выбрана. Левая половина = Альфа, правая = Омега
+                    Каждая область оценивается отдельно по цвету своего исхода
                   </p>
+                  <Button onClick={confirmSelection} className="gap-2">
+                    <Icon name="Check" size={18} />
+                    Применить
+                  </Button>
                 </div>
-                <Button onClick={confirmSelection} className="gap-2">
-                  <Icon name="Check" size={18} />
-                  Применить
-                </Button>
               </div>
             )}
           </div>
         </Card>
 
-        <div className="grid grid-cols-2 gap-4">
-          <Card className="p-4 space-y-2">
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 bg-secondary rounded"></div>
-              <h3 className="font-semibold">Альфа (голубой)</h3>
-            </div>
-            <p className="text-sm text-muted-foreground">
-              Левая половина выделенной области. Система ищет преобладание голубого цвета.
-            </p>
-          </Card>
-
-          <Card className="p-4 space-y-2">
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 bg-primary rounded"></div>
-              <h3 className="font-semibold">Омега (фиолетовый)</h3>
-            </div>
-            <p className="text-sm text-muted-foreground">
-              Правая половина выделенной области. Система ищет преобладание фиолетового цвета.
-            </p>
-          </Card>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {outcomes.map(outcome => (
+            <Card key={outcome.id} className="p-4 space-y-2">
+              <div className="flex items-center gap-2">
+                <div className="w-4 h-4 rounded" style={{ backgroundColor: outcome.color }}></div>
+                <h3 className="font-semibold">{outcome.label}</h3>
+                <Badge variant="outline">
+                  {regions.filter(r => r.outcome === outcome.id).length} обл.
+                </Badge>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Области, привязанные к исходу «{outcome.label}». Система ищет преобладание цвета из активного профиля.
+              </p>
+            </Card>
+          ))}
         </div>
       </div>
     </div>
@@ -0,0 +1,71 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { HistoryEntry, Outcome, Result, getOutcome } from '@/lib/outcomes';
+
+interface SnapshotDialogProps {
+  entry: HistoryEntry | null;
+  outcomes: Outcome[];
+  onLabel: (entry: HistoryEntry, result: Result) => void;
+  onClose: () => void;
+}
+
+export const SnapshotDialog = ({ entry, outcomes, onLabel, onClose }: SnapshotDialogProps) => {
+  const outcome = entry ? getOutcome(outcomes, entry.result) : null;
+
+  return (
+    <Dialog open={entry !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-xl">
+        {entry && outcome && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <Badge className="text-white" style={{ backgroundColor: outcome.color }}>
+                  {outcome.symbol} {outcome.label}
+                </Badge>
+                <span className="text-sm font-mono text-muted-foreground">
+                  {entry.timestamp.toLocaleString('ru-RU')}
+                </span>
+              </DialogTitle>
+              <DialogDescription>
+                Кадр, по которому был зафиксирован результат
+              </DialogDescription>
+            </DialogHeader>
+
+            {entry.snapshot ? (
+              <div className="space-y-3">
+                <img
+                  src={entry.snapshot.image}
+                  alt={`Снимок: ${outcome.label}`}
+                  className="w-full rounded-lg border border-border"
+                />
+                <div className="flex flex-wrap gap-3 text-sm font-mono">
+                  {Object.entries(entry.snapshot.scores).map(([id, score]) => (
+                    <span key={id} style={{ color: getOutcome(outcomes, id).color }}>
+                      {getOutcome(outcomes, id).label}: {(score * 100).toFixed(1)}%
+                    </span>
+                  ))}
+                </div>
+                <div className="flex flex-wrap items-center gap-2 pt-2 border-t border-border">
+                  <span className="text-sm text-muted-foreground">На кадре:</span>
+                  {outcomes.map(o => (
+                    <Button
+                      key={o.id}
+                      size="sm"
+                      variant={o.id === entry.result ? 'default' : 'outline'}
+                      onClick={() => onLabel(entry, o.id)}
+                    >
+                      {o.symbol} {o.id === entry.result ? `Верно: ${o.label}` : o.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Результат добавлен вручную, снимка нет</p>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,107 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import Icon from '@/components/ui/icon';
+import { Outcome, Result } from '@/lib/outcomes';
+import { DetectionRegion } from '@/lib/regions';
+import { ReferenceTemplate } from '@/lib/templates';
+
+interface TemplateManagerProps {
+  regions: DetectionRegion[];
+  outcomes: Outcome[];
+  templates: ReferenceTemplate[];
+  threshold: number;
+  onCapture: (region: DetectionRegion, outcome: Result) => void;
+  onDelete: (templateId: string) => void;
+  onThresholdChange: (value: number) => void;
+}
+
+export const TemplateManager = ({
+  regions,
+  outcomes,
+  templates,
+  threshold,
+  onCapture,
+  onDelete,
+  onThresholdChange
+}: TemplateManagerProps) => {
+  if (regions.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Сначала выделите хотя бы одну область, затем снимите для неё эталоны каждого исхода
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label className="text-sm mb-2 block">Минимальное сходство: {threshold}%</Label>
+        <Slider
+          value={[threshold]}
+          onValueChange={(values) => onThresholdChange(values[0])}
+          min={30}
+          max={95}
+          step={5}
+        />
+      </div>
+
+      {regions.map(region => {
+        const regionTemplates = templates.filter(t => t.regionId === region.id);
+
+        return (
+          <div key={region.id} className="p-4 rounded-lg border border-border space-y-3">
+            <div className="flex items-center justify-between gap-2 flex-wrap">
+              <span className="font-semibold">{region.label}</span>
+              <div className="flex gap-2 flex-wrap">
+                {outcomes.map(outcome => (
+                  <Button
+                    key={outcome.id}
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onCapture(region, outcome.id)}
+                    style={{ borderColor: outcome.color, color: outcome.color }}
+                  >
+                    <Icon name="Camera" size={14} className="mr-2" />
+                    {outcome.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            {outcomes.map(outcome => {
+              const captured = regionTemplates.filter(t => t.outcome === outcome.id);
+              if (captured.length === 0) return null;
+
+              return (
+                <div key={outcome.id} className="flex items-center gap-2 flex-wrap">
+                  <span className="text-xs text-muted-foreground w-20">{outcome.label}</span>
+                  {captured.map(template => (
+                    <div key={template.id} className="relative group">
+                      <img
+                        src={template.thumbnail}
+                        alt={outcome.label}
+                        className="h-12 rounded border-2"
+                        style={{ borderColor: outcome.color }}
+                      />
+                      <button
+                        onClick={() => onDelete(template.id)}
+                        className="absolute -top-2 -right-2 hidden group-hover:flex w-5 h-5 items-center justify-center rounded-full bg-destructive text-destructive-foreground"
+                      >
+                        <Icon name="X" size={12} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+
+            {regionTemplates.length === 0 && (
+              <p className="text-xs text-muted-foreground">Эталоны для этой области ещё не сняты</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import { Slider } from '@/components/ui/slider';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Outcome, Result } from '@/lib/outcomes';
+
+interface ThresholdEditorProps {
+  outcomes: Outcome[];
+  baseThreshold: number;
+  thresholds: Record<Result, number> | undefined;
+  minMargin: number;
+  onThresholdsChange: (thresholds: Record<Result, number> | undefined) => void;
+  onMinMarginChange: (value: number) => void;
+}
+
+export const ThresholdEditor = ({
+  outcomes,
+  baseThreshold,
+  thresholds,
+  minMargin,
+  onThresholdsChange,
+  onMinMarginChange
+}: ThresholdEditorProps) => {
+  const perClass = thresholds !== undefined;
+
+  const togglePerClass = (enabled: boolean) => {
+    onThresholdsChange(enabled ? Object.fromEntries(outcomes.map(o => [o.id, baseThreshold])) : undefined);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Switch id="per-class-thresholds" checked={perClass} onCheckedChange={togglePerClass} />
+          <Label htmlFor="per-class-thresholds" className="cursor-pointer">
+            Отдельный порог для каждого исхода
+          </Label>
+        </div>
+        {!perClass && <Badge variant="outline">общий {Math.round(baseThreshold * 100)}%</Badge>}
+      </div>
+
+      {perClass && (
+        <div className="space-y-3">
+          {outcomes.map(outcome => {
+            const value = thresholds[outcome.id] ?? baseThreshold;
+            return (
+              <div key={outcome.id} className="flex items-center gap-4">
+                <span className="w-24 text-sm font-medium truncate" style={{ color: outcome.color }}>
+                  {outcome.label}
+                </span>
+                <Slider
+                  value={[Math.round(value * 100)]}
+                  onValueChange={(values) => onThresholdsChange({ ...thresholds, [outcome.id]: values[0] / 100 })}
+                  min={1}
+                  max={99}
+                  step={1}
+                  className="flex-1"
+                />
+                <span className="w-12 text-right text-sm font-mono">{Math.round(value * 100)}%</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Минимальный отрыв победителя</Label>
+          <span className="text-sm font-mono">{Math.round(minMargin * 100)}%</span>
+        </div>
+        <Slider
+          value={[Math.round(minMargin * 100)]}
+          onValueChange={(values) => onMinMarginChange(values[0] / 100)}
+          min={0}
+          max={50}
+          step={1}
+        />
+        <p className="text-sm text-muted-foreground">
+          Если оценки двух исходов ближе друг к другу, кадр считается нерешённым и уходит на проверку
+        </p>
+      </div>
+    </div>
+  );
+};
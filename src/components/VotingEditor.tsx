@@ -0,0 +1,64 @@
+import { Slider } from '@/components/ui/slider';
+import { Label } from '@/components/ui/label';
+import { MAX_VOTING_FRAMES, VotingConfig, clampVoting } from '@/lib/voting';
+
+interface VotingEditorProps {
+  voting: VotingConfig;
+  onChange: (voting: VotingConfig) => void;
+}
+
+export const VotingEditor = ({ voting, onChange }: VotingEditorProps) => {
+  const update = (patch: Partial<VotingConfig>) => onChange(clampVoting({ ...voting, ...patch }));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Кадров в серии</Label>
+            <span className="text-sm font-mono">{voting.frames}</span>
+          </div>
+          <Slider
+            value={[voting.frames]}
+            onValueChange={(values) => update({ frames: values[0] })}
+            min={1}
+            max={MAX_VOTING_FRAMES}
+            step={1}
+          />
+        </div>
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Должны совпасть</Label>
+            <span className="text-sm font-mono">{voting.required}</span>
+          </div>
+          <Slider
+            value={[voting.required]}
+            onValueChange={(values) => update({ required: values[0] })}
+            min={1}
+            max={voting.frames}
+            step={1}
+            disabled={voting.frames === 1}
+          />
+        </div>
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Окно серии</Label>
+            <span className="text-sm font-mono">{voting.windowMs} мс</span>
+          </div>
+          <Slider
+            value={[voting.windowMs]}
+            onValueChange={(values) => update({ windowMs: values[0] })}
+            min={0}
+            max={2000}
+            step={50}
+            disabled={voting.frames === 1}
+          />
+        </div>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        После стабилизации кадра снимается серия из {voting.frames} кадров за {voting.windowMs} мс; результат
+        фиксируется, только если не меньше {voting.required} из них указывают на один исход
+      </p>
+    </div>
+  );
+};
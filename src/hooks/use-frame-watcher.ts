@@ -0,0 +1,83 @@
+import { useEffect, useRef, useState } from 'react';
+import { WatchedArea, frameDifference, sampleAreas } from '@/lib/frameDiff';
+
+export type WatchStatus = 'idle' | 'armed' | 'changing';
+
+interface FrameWatcherOptions {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  areas: WatchedArea[];
+  enabled: boolean;
+  onSettled: () => void;
+  changeThreshold?: number;
+  settleMs?: number;
+  checkIntervalMs?: number;
+}
+
+export function useFrameWatcher({
+  videoRef,
+  areas,
+  enabled,
+  onSettled,
+  changeThreshold = 0.03,
+  settleMs = 600,
+  checkIntervalMs = 100
+}: FrameWatcherOptions) {
+  const [status, setStatus] = useState<WatchStatus>('idle');
+  const onSettledRef = useRef(onSettled);
+
+  useEffect(() => {
+    onSettledRef.current = onSettled;
+  }, [onSettled]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!enabled || !video || areas.length === 0) {
+      setStatus('idle');
+      return;
+    }
+
+    const canvas = document.createElement('canvas');
+    const useVideoFrames = 'requestVideoFrameCallback' in video;
+    let previous: Uint8ClampedArray | null = null;
+    let lastCheck = 0;
+    let handle = 0;
+    let settleTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const settle = () => {
+      settleTimer = undefined;
+      setStatus('armed');
+      onSettledRef.current();
+    };
+
+    const check = (now: number) => {
+      if (now - lastCheck >= checkIntervalMs) {
+        lastCheck = now;
+        const current = sampleAreas(video, canvas, areas);
+        if (previous && current && frameDifference(previous, current) > changeThreshold) {
+          setStatus('changing');
+          clearTimeout(settleTimer);
+          settleTimer = setTimeout(settle, settleMs);
+        }
+        previous = current;
+      }
+      schedule();
+    };
+
+    const schedule = () => {
+      handle = useVideoFrames
+        ? video.requestVideoFrameCallback((now) => check(now))
+        : requestAnimationFrame(check);
+    };
+
+    setStatus('armed');
+    schedule();
+
+    return () => {
+      if (useVideoFrames) video.cancelVideoFrameCallback(handle);
+      else cancelAnimationFrame(handle);
+      clearTimeout(settleTimer);
+    };
+  }, [videoRef, areas, enabled, changeThreshold, settleMs, checkIntervalMs]);
+
+  return status;
+}
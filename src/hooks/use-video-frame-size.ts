@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import { FrameSize } from '@/lib/regions';
+
+export function useVideoFrameSize(videoRef: React.RefObject<HTMLVideoElement>) {
+  const [frameSize, setFrameSize] = useState<FrameSize>({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const sync = () => {
+      setFrameSize(current =>
+        current.width === video.videoWidth && current.height === video.videoHeight
+          ? current
+          : { width: video.videoWidth, height: video.videoHeight }
+      );
+    };
+
+    sync();
+    video.addEventListener('loadedmetadata', sync);
+    video.addEventListener('resize', sync);
+    return () => {
+      video.removeEventListener('loadedmetadata', sync);
+      video.removeEventListener('resize', sync);
+    };
+  }, [videoRef]);
+
+  return frameSize;
+}
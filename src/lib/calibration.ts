@@ -0,0 +1,59 @@
+import { NEUTRAL_OUTCOME, Outcome, Result } from '@/lib/outcomes';
+
+export const SAMPLES_PER_BURST = 5;
+export const SAMPLE_INTERVAL_MS = 250;
+export const MIN_SAMPLES_PER_STATE = 3;
+
+// Состояние экрана, для которого снимаются образцы: один из исходов или экран ожидания (NEUTRAL_OUTCOME)
+export type CalibrationState = Result;
+
+export interface CalibrationSample {
+  state: CalibrationState;
+  scores: Record<Result, number>;
+}
+
+export interface ThresholdRecommendation {
+  outcome: Result;
+  threshold: number;
+  falsePositiveRate: number;
+  falseNegativeRate: number;
+  positives: number[];
+  negatives: number[];
+}
+
+const errorRates = (positives: number[], negatives: number[], threshold: number) => ({
+  falseNegativeRate: positives.length > 0 ? positives.filter(s => s <= threshold).length / positives.length : 0,
+  falsePositiveRate: negatives.length > 0 ? negatives.filter(s => s > threshold).length / negatives.length : 0
+});
+
+// Порог выбирается посередине между соседними значениями так, чтобы сумма долей ошибок была минимальной;
+// при равенстве предпочитается самый широкий зазор между распределениями
+export const recommendThreshold = (outcome: Result, samples: CalibrationSample[]): ThresholdRecommendation => {
+  const positives = samples.filter(s => s.state === outcome).map(s => s.scores[outcome] ?? 0);
+  const negatives = samples.filter(s => s.state !== outcome).map(s => s.scores[outcome] ?? 0);
+  const values = [0, ...positives, ...negatives, 1].sort((a, b) => a - b);
+
+  let best = { threshold: 0.5, errors: Infinity, gap: -1 };
+  for (let i = 0; i < values.length - 1; i++) {
+    const threshold = (values[i] + values[i + 1]) / 2;
+    const gap = values[i + 1] - values[i];
+    const rates = errorRates(positives, negatives, threshold);
+    const errors = rates.falseNegativeRate + rates.falsePositiveRate;
+    if (errors < best.errors || (errors === best.errors && gap > best.gap)) {
+      best = { threshold, errors, gap };
+    }
+  }
+
+  return { outcome, threshold: best.threshold, ...errorRates(positives, negatives, best.threshold), positives, negatives };
+};
+
+// Порог ожидания рекомендуется, только если для него настроен эталон и классификатор выдаёт его оценку
+export const recommendThresholds = (outcomes: Outcome[], samples: CalibrationSample[]): ThresholdRecommendation[] => {
+  const scored = samples.some(s => s.scores[NEUTRAL_OUTCOME.id] !== undefined)
+    ? [...outcomes, NEUTRAL_OUTCOME]
+    : outcomes;
+  return scored.map(outcome => recommendThreshold(outcome.id, samples));
+};
+
+export const countSamples = (samples: CalibrationSample[], state: CalibrationState) =>
+  samples.filter(s => s.state === state).length;
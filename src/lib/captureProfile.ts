@@ -0,0 +1,46 @@
+import { CaptureSetup } from '@/lib/captureSetup';
+import { ColorProfile } from '@/lib/colorProfiles';
+import { MIN_OUTCOMES, Outcome } from '@/lib/outcomes';
+import { LabeledExample } from '@/lib/learnedClassifier';
+
+export const CAPTURE_PROFILE_VERSION = 1;
+
+// Всё, что нужно для распознавания кадра вне браузера: области, классификатор, цвета и исходы
+export interface CaptureProfileFile {
+  version: number;
+  setup: CaptureSetup;
+  profile: ColorProfile;
+  outcomes: Outcome[];
+  sensitivity: number;
+  // Примеры обучаемого классификатора; в файлах, сохранённых до его появления, поля нет
+  examples?: LabeledExample[];
+}
+
+export const createCaptureProfile = (
+  setup: CaptureSetup,
+  profile: ColorProfile,
+  outcomes: Outcome[],
+  sensitivity: number,
+  examples: LabeledExample[] = []
+): CaptureProfileFile => ({
+  version: CAPTURE_PROFILE_VERSION,
+  setup,
+  profile,
+  outcomes,
+  sensitivity,
+  examples
+});
+
+export const parseCaptureProfile = (value: unknown): CaptureProfileFile => {
+  const file = value as Partial<CaptureProfileFile> | null;
+  if (!file || typeof file !== 'object') throw new Error('Профиль захвата должен быть JSON-объектом');
+  if (file.version !== CAPTURE_PROFILE_VERSION) throw new Error(`Неподдерживаемая версия профиля: ${file.version}`);
+  if (!file.setup || !Array.isArray(file.setup.regions) || file.setup.regions.length === 0) {
+    throw new Error('В профиле нет областей распознавания');
+  }
+  if (!file.profile || typeof file.profile.colors !== 'object') throw new Error('В профиле нет цветового профиля');
+  if (!Array.isArray(file.outcomes) || file.outcomes.length < MIN_OUTCOMES) {
+    throw new Error(`В профиле должно быть не меньше ${MIN_OUTCOMES} исходов`);
+  }
+  return { ...file, sensitivity: file.sensitivity ?? 30 } as CaptureProfileFile;
+};
@@ -0,0 +1,50 @@
+import { DetectionRegion } from '@/lib/regions';
+import { ReferenceTemplate } from '@/lib/templates';
+import { NEUTRAL_OUTCOME, Outcome, Result } from '@/lib/outcomes';
+import { DEFAULT_VOTING, VotingConfig } from '@/lib/voting';
+import { DEFAULT_DUPLICATE_TOLERANCE } from '@/lib/perceptualHash';
+import { DEFAULT_NORMALIZATION, NormalizationConfig } from '@/lib/normalization';
+import { LEARNED_THRESHOLD } from '@/lib/learnedClassifier';
+
+export type ClassifierMode = 'color' | 'template' | 'learned';
+
+export interface CaptureSetup {
+  regions: DetectionRegion[];
+  classifier: ClassifierMode;
+  templates: ReferenceTemplate[];
+  templateThreshold: number;
+  // Пороги по исходам (0..1) из мастера калибровки; в сохранённых ранее настройках поля нет
+  classThresholds?: Record<Result, number>;
+  // Минимальный отрыв оценки победителя от второго места (0..1)
+  minMargin?: number;
+  voting?: VotingConfig;
+  // Доля изменившихся бит перцептивного хеша, при которой кадр уже считается новым (0..1)
+  duplicateTolerance?: number;
+  normalization?: NormalizationConfig;
+}
+
+export const DEFAULT_MIN_MARGIN = 0.05;
+
+export const DEFAULT_CAPTURE_SETUP: CaptureSetup = {
+  regions: [],
+  classifier: 'color',
+  templates: [],
+  templateThreshold: 70,
+  minMargin: DEFAULT_MIN_MARGIN,
+  voting: DEFAULT_VOTING,
+  duplicateTolerance: DEFAULT_DUPLICATE_TOLERANCE,
+  normalization: DEFAULT_NORMALIZATION
+};
+
+export const resolveThresholds = (
+  setup: CaptureSetup,
+  sensitivity: number,
+  outcomes: Outcome[]
+): Record<Result, number> => {
+  const base = setup.classifier === 'template'
+    ? setup.templateThreshold / 100
+    : setup.classifier === 'learned' ? LEARNED_THRESHOLD : sensitivity / 100;
+  return Object.fromEntries(
+    [...outcomes, NEUTRAL_OUTCOME].map(o => [o.id, setup.classThresholds?.[o.id] ?? base])
+  );
+};
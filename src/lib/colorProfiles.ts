@@ -0,0 +1,102 @@
+import { RGB, deltaE, hexToRgb, hueDistance, rgbToHsv, rgbToLab } from '@/lib/color';
+import { Outcome, Result } from '@/lib/outcomes';
+import { PixelBuffer } from '@/lib/pixels';
+
+export type ColorSpace = 'hsv' | 'lab';
+
+export interface ColorRange {
+  color: RGB;
+  space: ColorSpace;
+  tolerance: number;
+}
+
+export interface ColorProfile {
+  id: string;
+  name: string;
+  colors: Record<Result, ColorRange>;
+}
+
+export const DEFAULT_COLOR_PROFILES: ColorProfile[] = [
+  {
+    id: 'default',
+    name: 'Стандартный (голубой / фиолетовый)',
+    colors: {
+      alpha: { color: [80, 220, 240], space: 'hsv', tolerance: 25 },
+      omega: { color: [170, 50, 190], space: 'hsv', tolerance: 25 }
+    }
+  }
+];
+
+export const getColorRange = (profile: ColorProfile, outcome: Outcome): ColorRange =>
+  profile.colors[outcome.id] ?? { color: hexToRgb(outcome.color), space: 'lab', tolerance: 20 };
+
+export const createColorMatcher = (range: ColorRange): ((r: number, g: number, b: number) => boolean) => {
+  const [r0, g0, b0] = range.color;
+
+  if (range.space === 'lab') {
+    const ref = rgbToLab(r0, g0, b0);
+    return (r, g, b) => deltaE(rgbToLab(r, g, b), ref) <= range.tolerance;
+  }
+
+  const [h0, s0, v0] = rgbToHsv(r0, g0, b0);
+  const limit = range.tolerance / 100;
+  return (r, g, b) => {
+    const [h, s, v] = rgbToHsv(r, g, b);
+    return hueDistance(h, h0) / 180 <= limit && Math.abs(s - s0) <= limit && Math.abs(v - v0) <= limit;
+  };
+};
+
+export const analyzeColorDominance = (imageData: PixelBuffer, range: ColorRange): number => {
+  const matches = createColorMatcher(range);
+  let matchingPixels = 0;
+  let visiblePixels = 0;
+  const data = imageData.data;
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    visiblePixels++;
+    if (matches(data[i], data[i + 1], data[i + 2])) {
+      matchingPixels++;
+    }
+  }
+
+  return visiblePixels > 0 ? matchingPixels / visiblePixels : 0;
+};
+
+export const highlightMatches = (imageData: PixelBuffer, range: ColorRange, highlight: RGB): number => {
+  const matches = createColorMatcher(range);
+  let matchingPixels = 0;
+  let visiblePixels = 0;
+  const data = imageData.data;
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    visiblePixels++;
+    if (matches(data[i], data[i + 1], data[i + 2])) {
+      data[i] = highlight[0];
+      data[i + 1] = highlight[1];
+      data[i + 2] = highlight[2];
+      matchingPixels++;
+    } else {
+      data[i] *= 0.35;
+      data[i + 1] *= 0.35;
+      data[i + 2] *= 0.35;
+    }
+  }
+
+  return visiblePixels > 0 ? matchingPixels / visiblePixels : 0;
+};
+
+export const sampleColor = (imageData: PixelBuffer): RGB => {
+  const data = imageData.data;
+  const pixels = data.length / 4;
+  let r = 0, g = 0, b = 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    r += data[i];
+    g += data[i + 1];
+    b += data[i + 2];
+  }
+
+  return [Math.round(r / pixels), Math.round(g / pixels), Math.round(b / pixels)];
+};
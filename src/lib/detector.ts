@@ -0,0 +1,147 @@
+import { ColorProfile, analyzeColorDominance, getColorRange } from '@/lib/colorProfiles';
+import { NEUTRAL_OUTCOME, Outcome, Result, getOutcome } from '@/lib/outcomes';
+import { CaptureArea, DetectionRegion } from '@/lib/regions';
+import { ReferenceTemplate, TEMPLATE_SIZE, extractFeatures, matchTemplates } from '@/lib/templates';
+import { ClassifierMode } from '@/lib/captureSetup';
+import { PixelBuffer, applyMasks } from '@/lib/pixels';
+import { ColorCorrection, applyCorrection } from '@/lib/normalization';
+import { LEARNED_SAMPLE_SIZE, LabeledExample, classifyFeatures, frameFeatures } from '@/lib/learnedClassifier';
+
+export interface RegionSample {
+  region: DetectionRegion;
+  pixels: PixelBuffer;
+}
+
+export interface ScoringConfig {
+  classifier: ClassifierMode;
+  profile: ColorProfile;
+  outcomes: Outcome[];
+  templates: ReferenceTemplate[];
+  // Коррекция яркости и баланса белого для классификатора по цвету; оценивается по кадру до анализа
+  correction?: ColorCorrection | null;
+  // Размеченные примеры для обучаемого классификатора
+  examples?: LabeledExample[];
+}
+
+export const MAX_ANALYSIS_PIXELS = 160 * 160;
+
+// result — распознан исход, neutral — экран ожидания между раундами,
+// undecided — исходы слишком близки, unreadable — ничего уверенно не распознано
+export type DetectorState = 'result' | 'neutral' | 'undecided' | 'unreadable';
+
+export interface Detection {
+  state: DetectorState;
+  result: Result | null;
+  score: number;
+  margin: number;
+  confidence: number;
+  ambiguous: boolean;
+  // Порог пройден, но отрыв от второго места меньше требуемого
+  undecided: boolean;
+  scores: Record<Result, number>;
+}
+
+export const AMBIGUOUS_SCORE_RATIO = 0.5;
+
+export const scoreByColor = (
+  samples: RegionSample[],
+  profile: ColorProfile,
+  outcomes: Outcome[]
+): Record<Result, number> => {
+  const scores: Record<Result, number> = {};
+
+  for (const { region, pixels } of samples) {
+    const range = getColorRange(profile, getOutcome(outcomes, region.outcome));
+    const score = analyzeColorDominance(pixels, range);
+    scores[region.outcome] = Math.max(scores[region.outcome] ?? 0, score);
+  }
+
+  // Ожидание засчитывается, только когда нейтральный цвет занимает все области сразу
+  const neutralRange = profile.colors[NEUTRAL_OUTCOME.id];
+  if (neutralRange && samples.length > 0) {
+    scores[NEUTRAL_OUTCOME.id] = Math.min(...samples.map(({ pixels }) => analyzeColorDominance(pixels, neutralRange)));
+  }
+
+  return scores;
+};
+
+export const scoreByTemplates = (
+  samples: RegionSample[],
+  templates: ReferenceTemplate[]
+): Record<Result, number> => {
+  const scores: Record<Result, number> = {};
+
+  for (const { region, pixels } of samples) {
+    const regionTemplates = templates.filter(t => t.regionId === region.id);
+    const match = matchTemplates(extractFeatures(pixels), regionTemplates);
+    if (match) {
+      scores[match.outcome] = Math.max(scores[match.outcome] ?? 0, match.score);
+    }
+  }
+
+  return scores;
+};
+
+export const sampleSize = (config: ScoringConfig, area: CaptureArea) => {
+  if (config.classifier === 'template') {
+    return { width: TEMPLATE_SIZE, height: TEMPLATE_SIZE };
+  }
+  if (config.classifier === 'learned') {
+    return LEARNED_SAMPLE_SIZE;
+  }
+
+  const scale = Math.min(1, Math.sqrt(MAX_ANALYSIS_PIXELS / Math.max(1, area.width * area.height)));
+  return {
+    width: Math.max(1, Math.round(area.width * scale)),
+    height: Math.max(1, Math.round(area.height * scale))
+  };
+};
+
+export const scoreSamples = (samples: RegionSample[], config: ScoringConfig): Record<Result, number> => {
+  const masked = samples.map(sample =>
+    sample.region.masks?.length ? { ...sample, pixels: applyMasks(sample.pixels, sample.region.masks) } : sample
+  );
+  if (config.classifier === 'template') return scoreByTemplates(masked, config.templates);
+  if (config.classifier === 'learned') return classifyFeatures(frameFeatures(masked.map(s => s.pixels)), config.examples ?? []);
+
+  const { correction } = config;
+  const corrected = correction ? masked.map(sample => ({ ...sample, pixels: applyCorrection(sample.pixels, correction) })) : masked;
+  return scoreByColor(corrected, config.profile, config.outcomes);
+};
+
+export const pickWinner = (
+  scores: Record<Result, number>,
+  thresholds: number | Record<Result, number>,
+  minMargin = 0
+): Detection => {
+  const ranked = Object.entries(scores).sort((a, b) => b[1] - a[1]);
+  if (ranked.length === 0) {
+    return { state: 'unreadable', result: null, score: 0, margin: 0, confidence: 0, ambiguous: false, undecided: false, scores };
+  }
+
+  const [winner, winnerScore] = ranked[0];
+  const runnerUpScore = ranked[1]?.[1] ?? 0;
+  const margin = winnerScore - runnerUpScore;
+  const confidence = winnerScore > 0 ? margin / winnerScore : 0;
+  const threshold = typeof thresholds === 'number' ? thresholds : thresholds[winner] ?? 0;
+
+  const passed = winnerScore > threshold;
+  const undecided = passed && margin < minMargin;
+  const decided = passed && !undecided;
+  const neutral = decided && winner === NEUTRAL_OUTCOME.id;
+  const result = decided && !neutral ? winner : null;
+  const ambiguous = result === null && !neutral && winnerScore >= threshold * AMBIGUOUS_SCORE_RATIO;
+  const state: DetectorState = result ? 'result' : neutral ? 'neutral' : undecided ? 'undecided' : 'unreadable';
+
+  return { state, result, score: winnerScore, margin, confidence, ambiguous, undecided, scores };
+};
+
+export const hasNeutralReference = (config: ScoringConfig) => {
+  if (config.classifier === 'template') return config.templates.some(t => t.outcome === NEUTRAL_OUTCOME.id);
+  if (config.classifier === 'learned') return (config.examples ?? []).some(e => e.label === NEUTRAL_OUTCOME.id);
+  return config.profile.colors[NEUTRAL_OUTCOME.id] !== undefined;
+};
+
+// Признаки кадра для обучаемого классификатора с учётом масок — так же, как их видит scoreSamples
+export const sampleFeatures = (samples: RegionSample[]) =>
+  frameFeatures(samples.map(({ region, pixels }) => applyMasks(pixels, region.masks ?? [])));
@@ -0,0 +1,165 @@
+import { RegionSample, ScoringConfig, sampleSize, scoreSamples } from '@/lib/detector';
+import { Result } from '@/lib/outcomes';
+import { CaptureArea, DetectionRegion, FrameSize, boundingArea, readRegionPixels } from '@/lib/regions';
+import { FingerprintMatch, FingerprintSearch, RegionFingerprint, locateFingerprint, searchWindow } from '@/lib/relocation';
+
+export interface AnalyzeRequest {
+  type: 'analyze';
+  id: number;
+  frame: ImageBitmap;
+  origin: { x: number; y: number };
+  regions: DetectionRegion[];
+  config: ScoringConfig;
+}
+
+// Поиск сдвинувшихся областей: searches[i] — окно поиска для fingerprints[i] или null, если искать негде
+export interface LocateRequest {
+  type: 'locate';
+  id: number;
+  frame: ImageBitmap;
+  origin: { x: number; y: number };
+  fingerprints: RegionFingerprint[];
+  searches: (FingerprintSearch | null)[];
+}
+
+export type WorkerRequest = AnalyzeRequest | LocateRequest;
+
+export interface AnalyzeResponse {
+  type: 'analyze';
+  id: number;
+  scores: Record<Result, number> | null;
+  error?: string;
+}
+
+export interface LocateResponse {
+  type: 'locate';
+  id: number;
+  matches: (FingerprintMatch | null)[];
+  error?: string;
+}
+
+export type WorkerResponse = AnalyzeResponse | LocateResponse;
+
+export interface FrameAnalyzer {
+  analyze: (
+    source: HTMLVideoElement,
+    regions: DetectionRegion[],
+    config: ScoringConfig
+  ) => Promise<Record<Result, number> | null>;
+  locate: (
+    source: HTMLVideoElement,
+    fingerprints: RegionFingerprint[],
+    frame: FrameSize
+  ) => Promise<(FingerprintMatch | null)[]>;
+  dispose: () => void;
+}
+
+const clampToFrame = (area: CaptureArea, width: number, height: number): CaptureArea => {
+  const x = Math.max(0, Math.floor(area.x));
+  const y = Math.max(0, Math.floor(area.y));
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(width, Math.ceil(area.x + area.width)) - x),
+    height: Math.max(1, Math.min(height, Math.ceil(area.y + area.height)) - y)
+  };
+};
+
+const createMainThreadAnalyzer = (): FrameAnalyzer => {
+  const canvas = document.createElement('canvas');
+
+  return {
+    analyze: async (source, regions, config) => {
+      const samples: RegionSample[] = [];
+      for (const region of regions) {
+        const pixels = readRegionPixels(source, canvas, region, sampleSize(config, region));
+        if (!pixels) return null;
+        samples.push({ region, pixels });
+      }
+      return scoreSamples(samples, config);
+    },
+    locate: async (source, fingerprints, frame) =>
+      fingerprints.map(fingerprint => locateFingerprint(source, canvas, fingerprint, frame)),
+    dispose: () => {}
+  };
+};
+
+// Сбой воркера (не загрузился, упал, не смог разобрать сообщение) переводит анализ на основной поток насовсем:
+// ожидающие запросы завершаются с null, чтобы анализ кадра не зависал
+const createWorkerAnalyzer = (onError: (message: string) => void): FrameAnalyzer => {
+  const worker = new Worker(new URL('../workers/detector.worker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, (response: WorkerResponse | null) => void>();
+  let fallback: FrameAnalyzer | null = null;
+  let nextId = 0;
+
+  const flushPending = () => {
+    pending.forEach(resolve => resolve(null));
+    pending.clear();
+  };
+
+  const switchToMainThread = (message: string) => {
+    if (fallback) return;
+    fallback = createMainThreadAnalyzer();
+    worker.terminate();
+    flushPending();
+    onError(`${message}; анализ переведён на основной поток`);
+  };
+
+  worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+    const resolve = pending.get(e.data.id);
+    pending.delete(e.data.id);
+    if (e.data.error) onError(e.data.error);
+    resolve?.(e.data);
+  };
+  worker.onerror = (e: ErrorEvent) => {
+    e.preventDefault();
+    switchToMainThread(e.message || 'Воркер анализа завершился с ошибкой');
+  };
+  worker.onmessageerror = () => switchToMainThread('Воркер анализа не смог разобрать сообщение');
+
+  const send = (request: WorkerRequest) =>
+    new Promise<WorkerResponse | null>(resolve => {
+      // воркер мог упасть, пока снимался кадр
+      if (fallback) {
+        request.frame.close();
+        resolve(null);
+        return;
+      }
+      pending.set(request.id, resolve);
+      worker.postMessage(request, [request.frame]);
+    });
+
+  const captureFrame = async (source: HTMLVideoElement, areas: CaptureArea[]) => {
+    const area = clampToFrame(boundingArea(areas), source.videoWidth, source.videoHeight);
+    const frame = await createImageBitmap(source, area.x, area.y, area.width, area.height);
+    return { id: nextId++, frame, origin: { x: area.x, y: area.y } };
+  };
+
+  return {
+    analyze: async (source, regions, config) => {
+      if (fallback) return fallback.analyze(source, regions, config);
+      if (regions.length === 0 || source.videoWidth === 0) return null;
+
+      const response = await send({ type: 'analyze', ...(await captureFrame(source, regions)), regions, config });
+      return response?.type === 'analyze' ? response.scores : null;
+    },
+    locate: async (source, fingerprints, frame) => {
+      if (fallback) return fallback.locate(source, fingerprints, frame);
+      const searches = fingerprints.map(fingerprint => searchWindow(fingerprint, frame));
+      const areas = searches.filter((search): search is FingerprintSearch => search !== null).map(search => search.area);
+      if (areas.length === 0 || source.videoWidth === 0) return fingerprints.map(() => null);
+
+      const response = await send({ type: 'locate', ...(await captureFrame(source, areas)), fingerprints, searches });
+      return response?.type === 'locate' ? response.matches : fingerprints.map(() => null);
+    },
+    dispose: () => {
+      worker.terminate();
+      flushPending();
+    }
+  };
+};
+
+export const createFrameAnalyzer = (onError: (message: string) => void = () => {}): FrameAnalyzer =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined'
+    ? createWorkerAnalyzer(onError)
+    : createMainThreadAnalyzer();
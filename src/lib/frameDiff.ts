@@ -0,0 +1,40 @@
+import { CaptureArea } from '@/lib/regions';
+
+export const DIFF_SAMPLE_SIZE = 24;
+
+export interface WatchedArea extends CaptureArea {
+  masks?: CaptureArea[];
+}
+
+export const sampleAreas = (
+  source: CanvasImageSource,
+  canvas: HTMLCanvasElement,
+  areas: WatchedArea[],
+  size = DIFF_SAMPLE_SIZE
+): Uint8ClampedArray | null => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx || areas.length === 0) return null;
+
+  canvas.width = size * areas.length;
+  canvas.height = size;
+
+  areas.forEach((area, index) => {
+    ctx.drawImage(source, area.x, area.y, area.width, area.height, index * size, 0, size, size);
+    area.masks?.forEach(mask => {
+      ctx.clearRect(index * size + mask.x * size, mask.y * size, mask.width * size, mask.height * size);
+    });
+  });
+
+  return ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+};
+
+export const frameDifference = (a: Uint8ClampedArray, b: Uint8ClampedArray): number => {
+  if (a.length !== b.length || a.length === 0) return 1;
+
+  let total = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    total += Math.abs(a[i] - b[i]) + Math.abs(a[i + 1] - b[i + 1]) + Math.abs(a[i + 2] - b[i + 2]);
+  }
+
+  return total / ((a.length / 4) * 3 * 255);
+};
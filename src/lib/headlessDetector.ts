@@ -0,0 +1,66 @@
+import { DEFAULT_MIN_MARGIN, resolveThresholds } from '@/lib/captureSetup';
+import { CaptureProfileFile } from '@/lib/captureProfile';
+import { Detection, RegionSample, ScoringConfig, pickWinner, sampleSize, scoreSamples } from '@/lib/detector';
+import { Outcome, Result } from '@/lib/outcomes';
+import { PixelBuffer, cropPixels } from '@/lib/pixels';
+import { projectArea } from '@/lib/regions';
+import {
+  DEFAULT_NORMALIZATION,
+  NORMALIZATION_SAMPLE_SIZE,
+  estimateCorrection,
+  normalizationSource
+} from '@/lib/normalization';
+
+// Распознавание кадра без canvas и React: используется CLI и годится для любых сред с RGBA-буфером
+export const classifyFrame = (frame: PixelBuffer, file: CaptureProfileFile): Detection => {
+  const normalization = file.setup.normalization ?? DEFAULT_NORMALIZATION;
+  const source = normalizationSource(normalization, frame);
+  const config: ScoringConfig = {
+    classifier: file.setup.classifier,
+    profile: file.profile,
+    outcomes: file.outcomes,
+    templates: file.setup.templates,
+    correction: source && estimateCorrection(cropPixels(frame, source, NORMALIZATION_SAMPLE_SIZE), normalization),
+    examples: file.examples
+  };
+
+  const samples: RegionSample[] = file.setup.regions.map(r => {
+    const region = projectArea(r, frame);
+    return { region, pixels: cropPixels(frame, region, sampleSize(config, region)) };
+  });
+
+  return pickWinner(
+    scoreSamples(samples, config),
+    resolveThresholds(file.setup, file.sensitivity, file.outcomes),
+    file.setup.minMargin ?? DEFAULT_MIN_MARGIN
+  );
+};
+
+export interface LabeledPrediction {
+  expected: Result | null;
+  predicted: Result | null;
+}
+
+export interface ConfusionMatrix {
+  labels: (Result | null)[];
+  counts: number[][];
+  total: number;
+  correct: number;
+}
+
+// Строки — ожидаемый исход, столбцы — распознанный; null означает «нет результата»
+export const buildConfusionMatrix = (predictions: LabeledPrediction[], outcomes: Outcome[]): ConfusionMatrix => {
+  const labels: (Result | null)[] = [...outcomes.map(o => o.id), null];
+  const counts = labels.map(() => labels.map(() => 0));
+  let correct = 0;
+
+  predictions.forEach(({ expected, predicted }) => {
+    const row = labels.indexOf(expected);
+    const col = labels.indexOf(predicted);
+    if (row === -1 || col === -1) return;
+    counts[row][col]++;
+    if (row === col) correct++;
+  });
+
+  return { labels, counts, total: predictions.length, correct };
+};
@@ -0,0 +1,64 @@
+import { CaptureArea } from '@/lib/regions';
+import { ColorProfile, analyzeColorDominance, getColorRange } from '@/lib/colorProfiles';
+import { pickWinner } from '@/lib/detector';
+import { HistoryEntry, Outcome, Result } from '@/lib/outcomes';
+import { PixelBuffer } from '@/lib/pixels';
+
+// Порядок ячеек от самого старого результата к самому новому
+export type StripDirection = 'ltr' | 'rtl' | 'ttb' | 'btt';
+
+export const STRIP_DIRECTIONS: { value: StripDirection; label: string; icon: string }[] = [
+  { value: 'ltr', label: 'Новые справа', icon: 'ArrowRight' },
+  { value: 'rtl', label: 'Новые слева', icon: 'ArrowLeft' },
+  { value: 'ttb', label: 'Новые снизу', icon: 'ArrowDown' },
+  { value: 'btt', label: 'Новые сверху', icon: 'ArrowUp' }
+];
+
+export const MIN_STRIP_CELLS = 2;
+export const MAX_STRIP_CELLS = 100;
+export const DEFAULT_ROUND_INTERVAL_MS = 30_000;
+export const STRIP_CELL_SAMPLE = 32;
+
+// Края ячейки часто заняты рамкой фишки или фоном между фишками
+const CELL_INSET = 0.2;
+
+export const stripCells = (area: CaptureArea, count: number, direction: StripDirection): CaptureArea[] => {
+  const horizontal = direction === 'ltr' || direction === 'rtl';
+  const cellWidth = horizontal ? area.width / count : area.width;
+  const cellHeight = horizontal ? area.height : area.height / count;
+
+  const cells = Array.from({ length: count }, (_, i) => {
+    const x = horizontal ? area.x + i * cellWidth : area.x;
+    const y = horizontal ? area.y : area.y + i * cellHeight;
+    return {
+      x: x + cellWidth * CELL_INSET,
+      y: y + cellHeight * CELL_INSET,
+      width: cellWidth * (1 - 2 * CELL_INSET),
+      height: cellHeight * (1 - 2 * CELL_INSET)
+    };
+  });
+
+  return direction === 'rtl' || direction === 'btt' ? cells.reverse() : cells;
+};
+
+export const classifyCell = (
+  pixels: PixelBuffer,
+  profile: ColorProfile,
+  outcomes: Outcome[],
+  threshold: number
+): Result | null => {
+  const scores = Object.fromEntries(
+    outcomes.map(outcome => [outcome.id, analyzeColorDominance(pixels, getColorRange(profile, outcome))])
+  );
+  return pickWinner(scores, threshold).result;
+};
+
+export const averageInterval = (history: HistoryEntry[]): number | null => {
+  if (history.length < 2) return null;
+  const span = history[history.length - 1].timestamp.getTime() - history[0].timestamp.getTime();
+  return span > 0 ? span / (history.length - 1) : null;
+};
+
+// Равномерно раскладывает результаты ленты перед самым ранним известным результатом
+export const estimateTimestamps = (count: number, before: Date, intervalMs: number): Date[] =>
+  Array.from({ length: count }, (_, i) => new Date(before.getTime() - (count - i) * intervalMs));
@@ -0,0 +1,107 @@
+import { Result } from '@/lib/outcomes';
+import { PixelBuffer } from '@/lib/pixels';
+
+// k ближайших соседей по признакам кадра: цветовая гистограмма и уменьшенная копия каждой области
+export const LEARNED_SAMPLE_SIZE = { width: 16, height: 16 };
+export const LEARNED_THRESHOLD = 0.5;
+export const NEIGHBOURS = 5;
+export const MAX_EXAMPLES = 300;
+export const MIN_TRAINING_EXAMPLES = 10;
+const HISTOGRAM_LEVELS = 4;
+const THUMB_SIZE = 4;
+export const FEATURES_PER_REGION = HISTOGRAM_LEVELS ** 3 + THUMB_SIZE * THUMB_SIZE * 3;
+// Каждый пятый пример откладывается для проверки и в обучении не участвует
+const HOLD_OUT_EVERY = 5;
+
+export interface LabeledExample {
+  features: number[];
+  label: Result;
+  createdAt: number;
+}
+
+export interface HoldOutAccuracy {
+  accuracy: number;
+  tested: number;
+  trained: number;
+}
+
+export const regionFeatures = (pixels: PixelBuffer): number[] => {
+  const { width, height, data } = pixels;
+  const step = 256 / HISTOGRAM_LEVELS;
+  const histogram = new Array(HISTOGRAM_LEVELS ** 3).fill(0);
+  const thumb = new Array(THUMB_SIZE * THUMB_SIZE * 3).fill(0);
+  const thumbCounts = new Array(THUMB_SIZE * THUMB_SIZE).fill(0);
+  let visible = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (data[i + 3] === 0) continue;
+      visible++;
+
+      const [r, g, b] = [data[i], data[i + 1], data[i + 2]];
+      histogram[
+        Math.floor(r / step) * HISTOGRAM_LEVELS * HISTOGRAM_LEVELS + Math.floor(g / step) * HISTOGRAM_LEVELS + Math.floor(b / step)
+      ]++;
+
+      const cell = Math.floor((y * THUMB_SIZE) / height) * THUMB_SIZE + Math.floor((x * THUMB_SIZE) / width);
+      thumb[cell * 3] += r;
+      thumb[cell * 3 + 1] += g;
+      thumb[cell * 3 + 2] += b;
+      thumbCounts[cell]++;
+    }
+  }
+
+  return [
+    ...histogram.map(count => (visible > 0 ? count / visible : 0)),
+    ...thumb.map((sum, i) => (thumbCounts[Math.floor(i / 3)] > 0 ? sum / thumbCounts[Math.floor(i / 3)] / 255 : 0))
+  ].map(value => Math.round(value * 1000) / 1000);
+};
+
+export const frameFeatures = (regionPixels: PixelBuffer[]): number[] => regionPixels.flatMap(regionFeatures);
+
+const distance = (a: number[], b: number[]) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum);
+};
+
+// Оценка исхода — его доля среди ближайших соседей с весом, обратным расстоянию; примеры
+// с другим числом признаков (сняты при другом наборе областей) не учитываются
+export const classifyFeatures = (features: number[], examples: LabeledExample[]): Record<Result, number> => {
+  const neighbours = examples
+    .filter(e => e.features.length === features.length)
+    .map(e => ({ label: e.label, weight: 1 / (distance(features, e.features) + 1e-3) }))
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, NEIGHBOURS);
+
+  const total = neighbours.reduce((sum, n) => sum + n.weight, 0);
+  const scores: Record<Result, number> = {};
+  neighbours.forEach(n => {
+    scores[n.label] = (scores[n.label] ?? 0) + n.weight / total;
+  });
+  return scores;
+};
+
+export const compatibleExamples = (examples: LabeledExample[], featureCount: number) =>
+  examples.filter(e => e.features.length === featureCount);
+
+export const addExample = (examples: LabeledExample[], example: LabeledExample): LabeledExample[] =>
+  [...examples, example].slice(-MAX_EXAMPLES);
+
+export const holdOutAccuracy = (examples: LabeledExample[]): HoldOutAccuracy | null => {
+  if (examples.length < MIN_TRAINING_EXAMPLES) return null;
+
+  const test = examples.filter((_, i) => i % HOLD_OUT_EVERY === HOLD_OUT_EVERY - 1);
+  const train = examples.filter((_, i) => i % HOLD_OUT_EVERY !== HOLD_OUT_EVERY - 1);
+  const correct = test.filter(example => {
+    const scores = classifyFeatures(example.features, train);
+    const [predicted] = Object.entries(scores).sort((a, b) => b[1] - a[1])[0] ?? [null];
+    return predicted === example.label;
+  }).length;
+
+  return { accuracy: test.length > 0 ? correct / test.length : 0, tested: test.length, trained: train.length };
+};
+
+export const countExamples = (examples: LabeledExample[]): Record<Result, number> =>
+  examples.reduce<Record<Result, number>>((counts, e) => ({ ...counts, [e.label]: (counts[e.label] ?? 0) + 1 }), {});
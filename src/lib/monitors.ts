@@ -0,0 +1,32 @@
+import { HistoryEntry, Result } from '@/lib/outcomes';
+
+export interface MonitorInfo {
+  id: string;
+  name: string;
+}
+
+export interface MonitorSummary {
+  id: string;
+  isMonitoring: boolean;
+  history: HistoryEntry[];
+  currentPrediction: Result | null;
+  bestMethod: string;
+  bestAccuracy: number;
+  regionOutcomes: Result[];
+}
+
+export const DEFAULT_MONITOR_ID = 'main';
+
+export const DEFAULT_MONITORS: MonitorInfo[] = [{ id: DEFAULT_MONITOR_ID, name: 'Стол 1' }];
+
+// первый монитор читает настройки из прежнего ключа, чтобы не терять сохранённые области
+export const captureSetupKey = (monitorId: string) =>
+  monitorId === DEFAULT_MONITOR_ID ? 'captureSetup.v2' : `captureSetup.v2.${monitorId}`;
+
+export const learnedExamplesKey = (monitorId: string) => `learnedExamples.${monitorId}`;
+
+export const createMonitor = (existing: MonitorInfo[]): MonitorInfo => {
+  let index = existing.length + 1;
+  while (existing.some(m => m.name === `Стол ${index}`)) index++;
+  return { id: `monitor-${Date.now()}`, name: `Стол ${index}` };
+};
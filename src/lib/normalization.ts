@@ -0,0 +1,85 @@
+import { RGB } from '@/lib/color';
+import { sampleColor } from '@/lib/colorProfiles';
+import { PixelBuffer } from '@/lib/pixels';
+import { CaptureArea, FrameSize, projectArea } from '@/lib/regions';
+
+// patch — по эталонному участку экрана, histogram — по точке белого всего кадра
+export type NormalizationMode = 'off' | 'patch' | 'histogram';
+
+export interface NormalizationConfig {
+  mode: NormalizationMode;
+  // Эталонный участок в долях кадра и его средний цвет при нормальной яркости
+  patch?: CaptureArea;
+  reference?: RGB;
+}
+
+// Множители каналов, приводящие кадр к эталонной яркости и балансу белого
+export interface ColorCorrection {
+  gains: RGB;
+}
+
+export const DEFAULT_NORMALIZATION: NormalizationConfig = { mode: 'off' };
+export const NORMALIZATION_MODE_LABELS: Record<NormalizationMode, string> = {
+  off: 'Выключена',
+  patch: 'По эталонному участку',
+  histogram: 'По гистограмме кадра'
+};
+export const NORMALIZATION_SAMPLE_SIZE = { width: 64, height: 64 };
+export const MAX_GAIN = 4;
+const WHITE_PERCENTILE = 0.99;
+
+const clampGain = (gain: number) => Math.min(MAX_GAIN, Math.max(1 / MAX_GAIN, gain));
+
+// Точка белого канала — значение, ярче которого лишь 1% пикселей; одиночные блики её не сдвигают
+const whitePoint = (data: Uint8ClampedArray, channel: number) => {
+  const histogram = new Array(256).fill(0);
+  let total = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    histogram[data[i + channel]]++;
+    total++;
+  }
+
+  let above = 0;
+  for (let value = 255; value > 0; value--) {
+    above += histogram[value];
+    if (above >= total * (1 - WHITE_PERCENTILE)) return value;
+  }
+  return 1;
+};
+
+// Участок кадра, по которому оценивается коррекция; null — эталонный участок ещё не выделен
+export const normalizationSource = (config: NormalizationConfig, frame: FrameSize): CaptureArea | null => {
+  if (config.mode === 'patch') return config.patch ? projectArea(config.patch, frame) : null;
+  if (config.mode === 'histogram') return { x: 0, y: 0, width: frame.width, height: frame.height };
+  return null;
+};
+
+export const estimateCorrection = (pixels: PixelBuffer, config: NormalizationConfig): ColorCorrection | null => {
+  if (config.mode === 'patch') {
+    if (!config.reference) return null;
+    const mean = sampleColor(pixels);
+    return { gains: config.reference.map((ref, c) => clampGain(ref / Math.max(1, mean[c]))) as RGB };
+  }
+
+  if (config.mode === 'histogram') {
+    return { gains: [0, 1, 2].map(c => clampGain(255 / whitePoint(pixels.data, c))) as RGB };
+  }
+
+  return null;
+};
+
+// Возвращает скорректированную копию, исходный буфер не меняется
+export const sameCorrection = (a: ColorCorrection | null, b: ColorCorrection | null) =>
+  a === b || (a !== null && b !== null && a.gains.every((g, c) => Math.abs(g - b.gains[c]) < 0.01));
+
+export const applyCorrection = (pixels: PixelBuffer, { gains }: ColorCorrection): PixelBuffer => {
+  const data = new Uint8ClampedArray(pixels.data);
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    data[i] *= gains[0];
+    data[i + 1] *= gains[1];
+    data[i + 2] *= gains[2];
+  }
+  return { width: pixels.width, height: pixels.height, data };
+};
@@ -0,0 +1,52 @@
+export type Result = string;
+
+export interface Outcome {
+  id: Result;
+  label: string;
+  symbol: string;
+  color: string;
+}
+
+export interface DetectionSnapshot {
+  image: string;
+  scores: Record<Result, number>;
+  features?: number[];
+}
+
+export interface HistoryEntry {
+  id: number;
+  result: Result;
+  timestamp: Date;
+  snapshot?: DetectionSnapshot;
+}
+
+export const DEFAULT_OUTCOMES: Outcome[] = [
+  { id: 'alpha', label: 'Альфа', symbol: 'α', color: '#0EA5E9' },
+  { id: 'omega', label: 'Омега', symbol: 'ω', color: '#8B5CF6' }
+];
+
+export const MIN_OUTCOMES = 2;
+
+const UNKNOWN_OUTCOME_COLOR = '#94A3B8';
+
+// Экран между раундами: распознаётся как отдельное состояние, но не является исходом и не попадает в историю
+export const NEUTRAL_OUTCOME: Outcome = { id: 'neutral', label: 'Ожидание', symbol: '·', color: '#64748B' };
+
+export const getOutcome = (outcomes: Outcome[], id: Result): Outcome =>
+  outcomes.find(o => o.id === id) ??
+  (id === NEUTRAL_OUTCOME.id ? NEUTRAL_OUTCOME : { id, label: id, symbol: '?', color: UNKNOWN_OUTCOME_COLOR });
+
+// Ищет исход по символу, названию или идентификатору без учёта регистра
+export const findOutcome = (outcomes: Outcome[], token: string): Outcome | undefined => {
+  const lower = token.toLowerCase();
+  return outcomes.find(o =>
+    o.symbol.toLowerCase() === lower || o.label.toLowerCase() === lower || o.id.toLowerCase() === lower
+  );
+};
+
+export const countByOutcome = (history: HistoryEntry[], outcomes: Outcome[]): Record<Result, number> => {
+  const counts: Record<Result, number> = {};
+  outcomes.forEach(o => { counts[o.id] = 0; });
+  history.forEach(h => { counts[h.result] = (counts[h.result] ?? 0) + 1; });
+  return counts;
+};
@@ -0,0 +1,55 @@
+import { PixelBuffer } from '@/lib/pixels';
+
+// dHash: кадр сжимается до 9×8, каждый бит — «левый пиксель ярче правого»
+export const HASH_SIZE = { width: 9, height: 8 };
+export const DEFAULT_DUPLICATE_TOLERANCE = 0.1;
+export const MAX_DUPLICATE_TOLERANCE = 0.5;
+
+// Хеши областей в порядке regions, по 16 шестнадцатеричных символов на область
+export type FrameHash = string[];
+
+const luma = (data: Uint8ClampedArray, offset: number) =>
+  data[offset + 3] === 0 ? 0 : data[offset] * 0.299 + data[offset + 1] * 0.587 + data[offset + 2] * 0.114;
+
+export const differenceHash = (pixels: PixelBuffer): string => {
+  const { width, height, data } = pixels;
+  let hash = '';
+  let nibble = 0;
+  let bits = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const offset = (y * width + x) * 4;
+      nibble = (nibble << 1) | (luma(data, offset) > luma(data, offset + 4) ? 1 : 0);
+      if (++bits % 4 === 0) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+
+  return hash;
+};
+
+const popcount = (n: number) => {
+  let count = 0;
+  for (; n > 0; n >>= 1) count += n & 1;
+  return count;
+};
+
+const hammingDistance = (a: string, b: string) => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    distance += popcount(parseInt(a[i], 16) ^ parseInt(b[i], 16));
+  }
+  return distance;
+};
+
+// Доля различающихся бит в самой изменившейся области: 0 — кадры совпадают, 1 — различаются полностью
+export const frameHashDistance = (a: FrameHash, b: FrameHash): number => {
+  if (a.length !== b.length || a.length === 0) return 1;
+  return Math.max(...a.map((hash, i) => (hash.length === b[i].length ? hammingDistance(hash, b[i]) / (hash.length * 4) : 1)));
+};
+
+export const isSameFrame = (a: FrameHash, b: FrameHash, tolerance: number) =>
+  frameHashDistance(a, b) <= tolerance;
@@ -0,0 +1,78 @@
+import { CaptureArea } from '@/lib/regions';
+
+// RGBA-буфер без привязки к DOM: ImageData подходит под этот тип, а в Node его собирает декодер PNG
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export const createPixelBuffer = (width: number, height: number): PixelBuffer => ({
+  width,
+  height,
+  data: new Uint8ClampedArray(width * height * 4)
+});
+
+// Вырезает область и усредняет пиксели в ячейки целевого размера — аналог drawImage со сглаживанием
+export const cropPixels = (
+  source: PixelBuffer,
+  area: CaptureArea,
+  size?: { width: number; height: number }
+): PixelBuffer => {
+  const width = Math.max(1, Math.round(size?.width ?? area.width));
+  const height = Math.max(1, Math.round(size?.height ?? area.height));
+  const target = createPixelBuffer(width, height);
+  const cellWidth = area.width / width;
+  const cellHeight = area.height / height;
+
+  for (let ty = 0; ty < height; ty++) {
+    const top = Math.max(0, Math.floor(area.y + ty * cellHeight));
+    const bottom = Math.min(source.height, Math.max(top + 1, Math.floor(area.y + (ty + 1) * cellHeight)));
+
+    for (let tx = 0; tx < width; tx++) {
+      const left = Math.max(0, Math.floor(area.x + tx * cellWidth));
+      const right = Math.min(source.width, Math.max(left + 1, Math.floor(area.x + (tx + 1) * cellWidth)));
+      let r = 0, g = 0, b = 0, a = 0, count = 0;
+
+      for (let y = top; y < bottom; y++) {
+        for (let x = left; x < right; x++) {
+          const i = (y * source.width + x) * 4;
+          r += source.data[i];
+          g += source.data[i + 1];
+          b += source.data[i + 2];
+          a += source.data[i + 3];
+          count++;
+        }
+      }
+
+      const t = (ty * width + tx) * 4;
+      if (count > 0) {
+        target.data[t] = r / count;
+        target.data[t + 1] = g / count;
+        target.data[t + 2] = b / count;
+        target.data[t + 3] = a / count;
+      }
+    }
+  }
+
+  return target;
+};
+
+// Копия буфера, где пиксели под масками (в долях буфера) получают нулевую альфу и пропускаются при анализе
+export const applyMasks = (pixels: PixelBuffer, masks: CaptureArea[]): PixelBuffer => {
+  const data = new Uint8ClampedArray(pixels.data);
+  masks.forEach(mask => {
+    const left = Math.max(0, Math.floor(mask.x * pixels.width));
+    const top = Math.max(0, Math.floor(mask.y * pixels.height));
+    const right = Math.min(pixels.width, Math.ceil((mask.x + mask.width) * pixels.width));
+    const bottom = Math.min(pixels.height, Math.ceil((mask.y + mask.height) * pixels.height));
+
+    for (let y = top; y < bottom; y++) {
+      for (let x = left; x < right; x++) {
+        data[(y * pixels.width + x) * 4 + 3] = 0;
+      }
+    }
+  });
+
+  return { width: pixels.width, height: pixels.height, data };
+};
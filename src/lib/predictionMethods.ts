@@ -0,0 +1,84 @@
+import { HistoryEntry, Result } from '@/lib/outcomes';
+
+export interface PredictionMethod {
+  name: string;
+  predict: (history: HistoryEntry[], outcomeIds: Result[]) => Result;
+  accuracy: number;
+  predictions: number;
+  correct: number;
+}
+
+const countIn = (results: Result[], outcomeIds: Result[]) =>
+  outcomeIds.map(id => results.filter(r => r === id).length);
+
+// При равенстве побеждает исход, стоящий в списке позже: для альфы и омеги это омега, как было раньше
+const mostFrequent = (results: Result[], outcomeIds: Result[]) => {
+  const counts = countIn(results, outcomeIds);
+  return outcomeIds[counts.lastIndexOf(Math.max(...counts))];
+};
+
+const leastFrequent = (results: Result[], outcomeIds: Result[]) => {
+  const counts = countIn(results, outcomeIds);
+  return outcomeIds[counts.indexOf(Math.min(...counts))];
+};
+
+const nextOutcome = (current: Result, outcomeIds: Result[]) =>
+  outcomeIds[(outcomeIds.indexOf(current) + 1) % outcomeIds.length];
+
+export const createPredictionMethods = (): PredictionMethod[] => [
+  {
+    name: 'Частотный анализ',
+    predict: (hist, outcomeIds) => mostFrequent(hist.map(h => h.result), outcomeIds),
+    accuracy: 0,
+    predictions: 0,
+    correct: 0
+  },
+  {
+    name: 'Последние 5 значений',
+    predict: (hist, outcomeIds) => {
+      // Пока ни один исход не занял больше половины окна из 5, прогноз — первый исход, как раньше
+      const recent = hist.slice(-5).map(h => h.result);
+      return Math.max(...countIn(recent, outcomeIds)) > 2 ? leastFrequent(recent, outcomeIds) : outcomeIds[0];
+    },
+    accuracy: 0,
+    predictions: 0,
+    correct: 0
+  },
+  {
+    name: 'Паттерн-анализ',
+    predict: (hist, outcomeIds) => {
+      if (hist.length < 3) return outcomeIds[0];
+      const last3 = hist.slice(-3).map(h => h.result);
+      const last = last3[last3.length - 1];
+      if (last3.every(r => r === last)) {
+        const others = outcomeIds.filter(id => id !== last);
+        return leastFrequent(hist.slice(-10).map(h => h.result), others);
+      }
+      return nextOutcome(last, outcomeIds);
+    },
+    accuracy: 0,
+    predictions: 0,
+    correct: 0
+  },
+  {
+    name: 'Вероятностная модель',
+    predict: (hist, outcomeIds) => {
+      if (hist.length < 2) return outcomeIds[0];
+      const last = hist[hist.length - 1].result;
+      const transitions: Record<Result, number> = {};
+      outcomeIds.forEach(id => { transitions[id] = 0; });
+      for (let i = 0; i < hist.length - 1; i++) {
+        if (hist[i].result === last && hist[i + 1].result in transitions) {
+          transitions[hist[i + 1].result]++;
+        }
+      }
+      return outcomeIds.reduce((best, id) =>
+        transitions[id] > transitions[best] ? id : best,
+        outcomeIds.includes(last) ? last : outcomeIds[0]
+      );
+    },
+    accuracy: 0,
+    predictions: 0,
+    correct: 0
+  }
+];
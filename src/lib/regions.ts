@@ -0,0 +1,98 @@
+import { Result } from '@/lib/outcomes';
+
+export interface CaptureArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FrameSize {
+  width: number;
+  height: number;
+}
+
+// Координаты области хранятся в долях кадра (0..1) и проецируются в пиксели при каждом анализе
+export interface DetectionRegion extends CaptureArea {
+  id: string;
+  label: string;
+  outcome: Result;
+  masks?: CaptureArea[];
+}
+
+export const MIN_REGION_SIZE = 10;
+export const MIN_MASK_SIZE = 3;
+
+export const projectArea = <T extends CaptureArea>(area: T, frame: FrameSize): T => ({
+  ...area,
+  x: area.x * frame.width,
+  y: area.y * frame.height,
+  width: area.width * frame.width,
+  height: area.height * frame.height
+});
+
+export const normalizeArea = <T extends CaptureArea>(area: T, frame: FrameSize): T => ({
+  ...area,
+  x: area.x / frame.width,
+  y: area.y / frame.height,
+  width: area.width / frame.width,
+  height: area.height / frame.height
+});
+
+export const projectMask = (region: CaptureArea, mask: CaptureArea): CaptureArea => ({
+  x: region.x + mask.x * region.width,
+  y: region.y + mask.y * region.height,
+  width: mask.width * region.width,
+  height: mask.height * region.height
+});
+
+// Обрезает нарисованный прямоугольник по границам области; null — если с областью он почти не пересекается
+export const normalizeMask = (region: CaptureArea, area: CaptureArea): CaptureArea | null => {
+  const left = Math.max(region.x, area.x);
+  const top = Math.max(region.y, area.y);
+  const right = Math.min(region.x + region.width, area.x + area.width);
+  const bottom = Math.min(region.y + region.height, area.y + area.height);
+  if (right - left < MIN_MASK_SIZE || bottom - top < MIN_MASK_SIZE) return null;
+
+  return {
+    x: (left - region.x) / region.width,
+    y: (top - region.y) / region.height,
+    width: (right - left) / region.width,
+    height: (bottom - top) / region.height
+  };
+};
+
+export const boundingArea = (areas: CaptureArea[]): CaptureArea => {
+  const left = Math.min(...areas.map(a => a.x));
+  const top = Math.min(...areas.map(a => a.y));
+  const right = Math.max(...areas.map(a => a.x + a.width));
+  const bottom = Math.max(...areas.map(a => a.y + a.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+export const readRegionPixels = (
+  source: CanvasImageSource,
+  canvas: HTMLCanvasElement,
+  area: CaptureArea,
+  size?: { width: number; height: number }
+): ImageData | null => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  const width = Math.max(1, Math.round(size?.width ?? area.width));
+  const height = Math.max(1, Math.round(size?.height ?? area.height));
+  canvas.width = width;
+  canvas.height = height;
+
+  ctx.drawImage(source, area.x, area.y, area.width, area.height, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+export const regionThumbnail = (source: CanvasImageSource, area: CaptureArea, maxSize = 96): string => {
+  const scale = Math.min(1, maxSize / Math.max(area.width, area.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(area.width * scale));
+  canvas.height = Math.max(1, Math.round(area.height * scale));
+  canvas.getContext('2d')?.drawImage(source, area.x, area.y, area.width, area.height, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
@@ -0,0 +1,164 @@
+import { PixelBuffer } from '@/lib/pixels';
+import { CaptureArea, FrameSize, readRegionPixels } from '@/lib/regions';
+
+export const FINGERPRINT_SIZE = 24;
+export const MIN_FINGERPRINT_MATCH = 0.8;
+export const MIN_MATCH_GAIN = 0.1;
+export const MIN_RELOCATION_PX = 2;
+export const MAX_RELOCATION_LOG = 20;
+
+// Отпечаток берётся с запасом вокруг области: сам индикатор меняется от раунда к раунду, а окружение — нет
+const CONTEXT_MARGIN = 0.5;
+const SEARCH_MARGIN = 3;
+
+export interface RegionFingerprint {
+  regionId: string;
+  area: CaptureArea;
+  scale: number;
+  width: number;
+  height: number;
+  luma: number[];
+}
+
+export interface FingerprintMatch {
+  dx: number;
+  dy: number;
+  score: number;
+  currentScore: number;
+}
+
+// Окно поиска в кадре и размер, до которого оно сжимается в масштабе отпечатка
+export interface FingerprintSearch {
+  area: CaptureArea;
+  width: number;
+  height: number;
+}
+
+export interface RelocationEvent {
+  id: number;
+  timestamp: Date;
+  regionLabel: string;
+  dx: number;
+  dy: number;
+  score: number;
+}
+
+export const expandArea = (area: CaptureArea, margin: number, frame: FrameSize): CaptureArea => {
+  const left = Math.max(0, area.x - area.width * margin);
+  const top = Math.max(0, area.y - area.height * margin);
+  const right = Math.min(frame.width, area.x + area.width * (1 + margin));
+  const bottom = Math.min(frame.height, area.y + area.height * (1 + margin));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+const toLuma = (pixels: PixelBuffer) => {
+  const { data } = pixels;
+  const luma: number[] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    luma.push(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+  }
+  return luma;
+};
+
+export const captureFingerprint = (
+  source: CanvasImageSource,
+  canvas: HTMLCanvasElement,
+  regionId: string,
+  region: CaptureArea,
+  frame: FrameSize
+): RegionFingerprint | null => {
+  const area = expandArea(region, CONTEXT_MARGIN, frame);
+  const scale = FINGERPRINT_SIZE / Math.max(area.width, area.height);
+  const width = Math.max(4, Math.round(area.width * scale));
+  const height = Math.max(4, Math.round(area.height * scale));
+  const pixels = readRegionPixels(source, canvas, area, { width, height });
+  if (!pixels) return null;
+  return { regionId, area, scale, width, height, luma: toLuma(pixels) };
+};
+
+// Нормированная взаимная корреляция отпечатка с окном поиска в точке (ox, oy)
+const correlationAt = (
+  fingerprint: RegionFingerprint,
+  fpMean: number,
+  fpNorm: number,
+  window: number[],
+  windowWidth: number,
+  ox: number,
+  oy: number
+) => {
+  const { width, height, luma } = fingerprint;
+  let mean = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) mean += window[(oy + y) * windowWidth + ox + x];
+  }
+  mean /= width * height;
+
+  let cross = 0;
+  let norm = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const w = window[(oy + y) * windowWidth + ox + x] - mean;
+      cross += w * (luma[y * width + x] - fpMean);
+      norm += w * w;
+    }
+  }
+  // однотонные участки не несут информации о положении
+  if (norm === 0 || fpNorm === 0) return 0;
+  return cross / Math.sqrt(norm * fpNorm);
+};
+
+export const searchWindow = (fingerprint: RegionFingerprint, frame: FrameSize): FingerprintSearch | null => {
+  const area = expandArea(fingerprint.area, SEARCH_MARGIN, frame);
+  const width = Math.round(area.width * fingerprint.scale);
+  const height = Math.round(area.height * fingerprint.scale);
+  if (width < fingerprint.width || height < fingerprint.height) return null;
+  return { area, width, height };
+};
+
+// Перебор всех сдвигов отпечатка в окне поиска; pixels — окно, уже сжатое до search.width × search.height
+export const matchFingerprint = (
+  fingerprint: RegionFingerprint,
+  search: FingerprintSearch,
+  pixels: PixelBuffer
+): FingerprintMatch => {
+  const { area, width, height } = search;
+  const window = toLuma(pixels);
+
+  const fpMean = fingerprint.luma.reduce((sum, v) => sum + v, 0) / fingerprint.luma.length;
+  const fpNorm = fingerprint.luma.reduce((sum, v) => sum + (v - fpMean) ** 2, 0);
+
+  const currentX = Math.min(width - fingerprint.width, Math.round((fingerprint.area.x - area.x) * fingerprint.scale));
+  const currentY = Math.min(height - fingerprint.height, Math.round((fingerprint.area.y - area.y) * fingerprint.scale));
+  const currentScore = correlationAt(fingerprint, fpMean, fpNorm, window, width, currentX, currentY);
+
+  let best = { x: currentX, y: currentY, score: currentScore };
+  for (let oy = 0; oy <= height - fingerprint.height; oy++) {
+    for (let ox = 0; ox <= width - fingerprint.width; ox++) {
+      const score = correlationAt(fingerprint, fpMean, fpNorm, window, width, ox, oy);
+      if (score > best.score) best = { x: ox, y: oy, score };
+    }
+  }
+
+  return {
+    dx: (best.x - currentX) / fingerprint.scale,
+    dy: (best.y - currentY) / fingerprint.scale,
+    score: best.score,
+    currentScore
+  };
+};
+
+export const locateFingerprint = (
+  source: CanvasImageSource,
+  canvas: HTMLCanvasElement,
+  fingerprint: RegionFingerprint,
+  frame: FrameSize
+): FingerprintMatch | null => {
+  const search = searchWindow(fingerprint, frame);
+  const pixels = search && readRegionPixels(source, canvas, search.area, search);
+  return search && pixels ? matchFingerprint(fingerprint, search, pixels) : null;
+};
+
+export const isRelocation = (match: FingerprintMatch) =>
+  match.score >= MIN_FINGERPRINT_MATCH &&
+  match.score - match.currentScore >= MIN_MATCH_GAIN &&
+  Math.hypot(match.dx, match.dy) >= MIN_RELOCATION_PX;
@@ -0,0 +1,36 @@
+import { Outcome, Result, findOutcome } from '@/lib/outcomes';
+
+export const PLAYBACK_RATES = [1, 2, 4, 8, 16];
+
+export interface SequenceComparison {
+  matched: number;
+  compared: number;
+  missing: number;
+  extra: number;
+  mismatches: number[];
+}
+
+export const parseExpectedSequence = (text: string, outcomes: Outcome[]): Result[] => {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  const tokens = /[\s,;]/.test(trimmed) ? trimmed.split(/[\s,;]+/) : Array.from(trimmed);
+  return tokens.map(token => findOutcome(outcomes, token)?.id).filter((id): id is Result => id !== undefined);
+};
+
+export const compareSequences = (expected: Result[], detected: Result[]): SequenceComparison => {
+  const compared = Math.min(expected.length, detected.length);
+  const mismatches: number[] = [];
+
+  for (let i = 0; i < compared; i++) {
+    if (expected[i] !== detected[i]) mismatches.push(i);
+  }
+
+  return {
+    matched: compared - mismatches.length,
+    compared,
+    missing: Math.max(0, expected.length - detected.length),
+    extra: Math.max(0, detected.length - expected.length),
+    mismatches
+  };
+};
@@ -0,0 +1,24 @@
+import { Result } from '@/lib/outcomes';
+import { FrameHash } from '@/lib/perceptualHash';
+
+export interface ReviewItem {
+  id: number;
+  timestamp: Date;
+  image: string;
+  scores: Record<Result, number>;
+  confidence: number;
+  // Признаки кадра: после ручной разметки становятся примером для обучаемого классификатора
+  features?: number[];
+  frameHash?: FrameHash;
+  // Раунд, в котором снят кадр, и исход, уже записанный в этом раунде
+  round: number;
+  committed?: Result;
+}
+
+export const MAX_REVIEW_ITEMS = 50;
+
+export const markRoundCommitted = (queue: ReviewItem[], round: number, result: Result): ReviewItem[] =>
+  queue.map(item => (item.round === round ? { ...item, committed: result } : item));
+
+export const enqueueReview = (queue: ReviewItem[], item: ReviewItem): ReviewItem[] =>
+  [...queue, item].slice(-MAX_REVIEW_ITEMS);
@@ -0,0 +1,40 @@
+import { NEUTRAL_OUTCOME, Result } from '@/lib/outcomes';
+
+export type RoundPhase = 'idle' | 'showing';
+
+export interface RoundState {
+  phase: RoundPhase;
+  result: Result | null;
+  since: number;
+  // Номер раунда: растёт, когда показанный исход сменяется ожиданием или другим исходом
+  round: number;
+}
+
+export interface RoundTransition {
+  state: RoundState;
+  committed: Result | null;
+}
+
+export const INITIAL_ROUND_STATE: RoundState = { phase: 'idle', result: null, since: 0, round: 0 };
+
+// detected — исход, NEUTRAL_OUTCOME.id для экрана ожидания или null, если кадр не распознан:
+// раунд заканчивается только на экране ожидания, нечитаемые кадры его не прерывают
+export const advanceRound = (state: RoundState, detected: Result | null, now: number): RoundTransition => {
+  if (detected === null) {
+    return { state, committed: null };
+  }
+
+  if (detected === NEUTRAL_OUTCOME.id) {
+    if (state.phase === 'idle') return { state, committed: null };
+    return { state: { phase: 'idle', result: null, since: now, round: state.round + 1 }, committed: null };
+  }
+
+  if (state.phase === 'showing' && state.result === detected) {
+    return { state, committed: null };
+  }
+
+  return {
+    state: { phase: 'showing', result: detected, since: now, round: state.phase === 'showing' ? state.round + 1 : state.round },
+    committed: detected
+  };
+};
@@ -0,0 +1,84 @@
+import { CaptureArea, FrameSize, MIN_REGION_SIZE } from '@/lib/regions';
+
+export type ResizeHandle = 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export const RESIZE_HANDLES: ResizeHandle[] = ['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w'];
+
+export const handlePosition = (area: CaptureArea, handle: ResizeHandle): Point => {
+  const x = handle.includes('w') ? area.x : handle.includes('e') ? area.x + area.width : area.x + area.width / 2;
+  const y = handle.includes('n') ? area.y : handle.includes('s') ? area.y + area.height : area.y + area.height / 2;
+  return { x, y };
+};
+
+export const hitTestHandle = (area: CaptureArea, point: Point, tolerance: number): ResizeHandle | null =>
+  RESIZE_HANDLES.find(handle => {
+    const p = handlePosition(area, handle);
+    return Math.abs(p.x - point.x) <= tolerance && Math.abs(p.y - point.y) <= tolerance;
+  }) ?? null;
+
+export const containsPoint = (area: CaptureArea, point: Point) =>
+  point.x >= area.x && point.x <= area.x + area.width && point.y >= area.y && point.y <= area.y + area.height;
+
+export const clampArea = <T extends CaptureArea>(area: T, frame: FrameSize): T => {
+  const width = Math.min(Math.max(MIN_REGION_SIZE, area.width), frame.width);
+  const height = Math.min(Math.max(MIN_REGION_SIZE, area.height), frame.height);
+  return {
+    ...area,
+    x: Math.min(Math.max(0, area.x), frame.width - width),
+    y: Math.min(Math.max(0, area.y), frame.height - height),
+    width,
+    height
+  };
+};
+
+export const moveArea = <T extends CaptureArea>(area: T, dx: number, dy: number, frame: FrameSize): T =>
+  clampArea({ ...area, x: area.x + dx, y: area.y + dy }, frame);
+
+export const resizeArea = <T extends CaptureArea>(
+  area: T,
+  handle: ResizeHandle,
+  dx: number,
+  dy: number,
+  frame: FrameSize
+): T => {
+  let left = area.x;
+  let top = area.y;
+  let right = area.x + area.width;
+  let bottom = area.y + area.height;
+
+  if (handle.includes('w')) left += dx;
+  if (handle.includes('e')) right += dx;
+  if (handle.includes('n')) top += dy;
+  if (handle.includes('s')) bottom += dy;
+
+  return clampArea({
+    ...area,
+    x: Math.min(left, right),
+    y: Math.min(top, bottom),
+    width: Math.abs(right - left),
+    height: Math.abs(bottom - top)
+  }, frame);
+};
+
+export const areaFromPoints = (a: Point, b: Point): CaptureArea => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(b.x - a.x),
+  height: Math.abs(b.y - a.y)
+});
+
+export const HANDLE_CURSORS: Record<ResizeHandle, string> = {
+  n: 'ns-resize',
+  s: 'ns-resize',
+  e: 'ew-resize',
+  w: 'ew-resize',
+  ne: 'nesw-resize',
+  sw: 'nesw-resize',
+  nw: 'nwse-resize',
+  se: 'nwse-resize'
+};
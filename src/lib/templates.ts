@@ -0,0 +1,107 @@
+import { Result } from '@/lib/outcomes';
+import { PixelBuffer } from '@/lib/pixels';
+
+export const TEMPLATE_SIZE = 32;
+const HISTOGRAM_LEVELS = 4;
+
+export interface TemplateFeatures {
+  histogram: number[];
+  luma: number[];
+}
+
+export interface ReferenceTemplate extends TemplateFeatures {
+  id: string;
+  outcome: Result;
+  regionId: string;
+  thumbnail: string;
+  createdAt: number;
+}
+
+export interface TemplateMatch {
+  outcome: Result;
+  templateId: string;
+  score: number;
+}
+
+export const extractFeatures = (imageData: PixelBuffer): TemplateFeatures => {
+  const data = imageData.data;
+  let pixels = 0;
+  const histogram = new Array(HISTOGRAM_LEVELS ** 3).fill(0);
+  const luma: number[] = [];
+  const step = 256 / HISTOGRAM_LEVELS;
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) {
+      luma.push(0);
+      continue;
+    }
+    pixels++;
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const bin =
+      Math.floor(r / step) * HISTOGRAM_LEVELS * HISTOGRAM_LEVELS +
+      Math.floor(g / step) * HISTOGRAM_LEVELS +
+      Math.floor(b / step);
+    histogram[bin]++;
+    luma.push(Math.round(0.299 * r + 0.587 * g + 0.114 * b));
+  }
+
+  return { histogram: histogram.map(count => (pixels > 0 ? count / pixels : 0)), luma };
+};
+
+export const histogramSimilarity = (a: number[], b: number[]) =>
+  a.reduce((sum, value, i) => sum + Math.min(value, b[i] ?? 0), 0);
+
+export const structuralSimilarity = (a: number[], b: number[]) => {
+  const n = Math.min(a.length, b.length);
+  if (n === 0) return 0;
+
+  let meanA = 0, meanB = 0;
+  for (let i = 0; i < n; i++) {
+    meanA += a[i];
+    meanB += b[i];
+  }
+  meanA /= n;
+  meanB /= n;
+
+  let varA = 0, varB = 0, covariance = 0;
+  for (let i = 0; i < n; i++) {
+    const da = a[i] - meanA;
+    const db = b[i] - meanB;
+    varA += da * da;
+    varB += db * db;
+    covariance += da * db;
+  }
+  varA /= n;
+  varB /= n;
+  covariance /= n;
+
+  const c1 = (0.01 * 255) ** 2;
+  const c2 = (0.03 * 255) ** 2;
+  const ssim =
+    ((2 * meanA * meanB + c1) * (2 * covariance + c2)) /
+    ((meanA ** 2 + meanB ** 2 + c1) * (varA + varB + c2));
+
+  return Math.max(0, ssim);
+};
+
+export const templateSimilarity = (features: TemplateFeatures, template: TemplateFeatures) =>
+  0.5 * histogramSimilarity(features.histogram, template.histogram) +
+  0.5 * structuralSimilarity(features.luma, template.luma);
+
+export const matchTemplates = (
+  features: TemplateFeatures,
+  templates: ReferenceTemplate[]
+): TemplateMatch | null => {
+  let best: TemplateMatch | null = null;
+
+  for (const template of templates) {
+    const score = templateSimilarity(features, template);
+    if (!best || score > best.score) {
+      best = { outcome: template.outcome, templateId: template.id, score };
+    }
+  }
+
+  return best;
+};
@@ -0,0 +1,47 @@
+import { Detection } from '@/lib/detector';
+import { NEUTRAL_OUTCOME, Result } from '@/lib/outcomes';
+
+export interface VotingConfig {
+  frames: number;
+  required: number;
+  windowMs: number;
+}
+
+export const DEFAULT_VOTING: VotingConfig = { frames: 3, required: 2, windowMs: 300 };
+export const MAX_VOTING_FRAMES = 9;
+
+export interface VoteTally {
+  result: Result | null;
+  neutral: boolean;
+  votes: number;
+  frames: number;
+  counts: Record<Result, number>;
+}
+
+// Нераспознанные кадры не голосуют, но входят в общее число кадров; экран ожидания голосует как отдельный вариант
+export const tallyVotes = (detections: Detection[], required: number): VoteTally => {
+  const counts: Record<Result, number> = {};
+  detections.forEach(d => {
+    const vote = d.state === 'neutral' ? NEUTRAL_OUTCOME.id : d.result;
+    if (vote) counts[vote] = (counts[vote] ?? 0) + 1;
+  });
+
+  const [leader, votes] = Object.entries(counts).sort((a, b) => b[1] - a[1])[0] ?? [null, 0];
+  const winner = leader !== null && votes >= required ? leader : null;
+  return {
+    result: winner === NEUTRAL_OUTCOME.id ? null : winner,
+    neutral: winner === NEUTRAL_OUTCOME.id,
+    votes,
+    frames: detections.length,
+    counts
+  };
+};
+
+export const clampVoting = (config: VotingConfig): VotingConfig => {
+  const frames = Math.min(MAX_VOTING_FRAMES, Math.max(1, Math.round(config.frames)));
+  return {
+    frames,
+    required: Math.min(frames, Math.max(1, Math.round(config.required))),
+    windowMs: Math.max(0, Math.round(config.windowMs))
+  };
+};
@@ -0,0 +1,50 @@
+import { RegionSample, sampleSize, scoreSamples } from '@/lib/detector';
+import { matchFingerprint } from '@/lib/relocation';
+import { CaptureArea } from '@/lib/regions';
+import type { WorkerRequest, WorkerResponse } from '@/lib/frameAnalyzer';
+
+const canvas = new OffscreenCanvas(1, 1);
+const ctx = canvas.getContext('2d', { willReadFrequently: true });
+
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const request = e.data;
+  const { id, frame, origin } = request;
+  let response: WorkerResponse;
+
+  const readArea = (area: CaptureArea, width: number, height: number) => {
+    if (!ctx) throw new Error('OffscreenCanvas 2D context is unavailable');
+    canvas.width = width;
+    canvas.height = height;
+    ctx.drawImage(
+      frame,
+      area.x - origin.x, area.y - origin.y, area.width, area.height,
+      0, 0, width, height
+    );
+    return ctx.getImageData(0, 0, width, height);
+  };
+
+  try {
+    if (request.type === 'locate') {
+      const matches = request.fingerprints.map((fingerprint, i) => {
+        const search = request.searches[i];
+        return search ? matchFingerprint(fingerprint, search, readArea(search.area, search.width, search.height)) : null;
+      });
+      response = { type: 'locate', id, matches };
+    } else {
+      const samples: RegionSample[] = request.regions.map(region => {
+        const { width, height } = sampleSize(request.config, region);
+        return { region, pixels: readArea(region, width, height) };
+      });
+      response = { type: 'analyze', id, scores: scoreSamples(samples, request.config) };
+    }
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    response = request.type === 'locate'
+      ? { type: 'locate', id, matches: request.fingerprints.map(() => null), error }
+      : { type: 'analyze', id, scores: null, error };
+  } finally {
+    frame.close();
+  }
+
+  self.postMessage(response);
+};